@@ -1,26 +1,83 @@
+import { FileUp, Redo2, Save, Scan, Undo2, X, ZoomIn, ZoomOut } from "lucide-react";
+import type React from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Copy, Pause, Play } from "lucide-react";
-import type React from "react";
-import { useCallback, useEffect, useMemo, useRef } from "react";
-import { useAudioService } from "./features/waveform-viewer/hooks/useAudioService";
-import { useKeyboardShortcuts } from "./features/waveform-viewer/hooks/useKeyboardShortcuts";
+import { AmplitudeControls } from "./features/waveform-viewer/components/AmplitudeControls";
+import { CanvasTiles } from "./features/waveform-viewer/components/CanvasTiles";
+import { ChannelDisplayControls } from "./features/waveform-viewer/components/ChannelDisplayControls";
+import { LoopControls } from "./features/waveform-viewer/components/LoopControls";
+import { MetadataPanel } from "./features/waveform-viewer/components/MetadataPanel";
+import { PlaybackRateControls } from "./features/waveform-viewer/components/PlaybackRateControls";
+import { RecentSessions } from "./features/waveform-viewer/components/RecentSessions";
+import { SessionRestorePrompt } from "./features/waveform-viewer/components/SessionRestorePrompt";
+import { SpectrogramControls } from "./features/waveform-viewer/components/SpectrogramControls";
+import { TagCategoryEditor } from "./features/waveform-viewer/components/TagCategoryEditor";
+import { TagExportControls } from "./features/waveform-viewer/components/TagExportControls";
+import { TagImportDialog } from "./features/waveform-viewer/components/TagImportDialog";
+import { TagList } from "./features/waveform-viewer/components/TagList";
+import { TimeFormatSelect } from "./features/waveform-viewer/components/TimeFormatSelect";
+import { TimelineScrollbar } from "./features/waveform-viewer/components/TimelineScrollbar";
+import { TransportControls } from "./features/waveform-viewer/components/TransportControls";
+import { WaveformOverview } from "./features/waveform-viewer/components/WaveformOverview";
+import { isDecodeCancelled, useAudioDecoder } from "./features/waveform-viewer/hooks/useAudioDecoder";
+import { getPlaybackUnavailableReason, useAudioService } from "./features/waveform-viewer/hooks/useAudioService";
+import { useElementWidth } from "./features/waveform-viewer/hooks/useElementWidth";
+import { hasModifier, useKeyboardShortcuts } from "./features/waveform-viewer/hooks/useKeyboardShortcuts";
+import { useSampleWindow } from "./features/waveform-viewer/hooks/useSampleWindow";
+import { useSessionStore } from "./features/waveform-viewer/hooks/useSessionStore";
+import { useSpectrogram } from "./features/waveform-viewer/hooks/useSpectrogram";
 import { useWaveformReducer } from "./features/waveform-viewer/hooks/useWaveformReducer";
-import { calculateCanvasWidth, cssColorToRgb } from "./features/waveform-viewer/utils/canvas";
-import { formatTime } from "./features/waveform-viewer/utils/time";
-import { parseWavFile } from "./features/waveform-viewer/utils/wavParser";
-
-const MINUTES_BASE = 60; // 60 minutes = full width
+import type { Tag } from "./features/waveform-viewer/types";
+import { AMPLITUDE_RULER_WIDTH, drawAmplitudeRuler, drawFrequencyRuler, drawLoopRegion, drawPeaksLane, drawSamplesLane, drawSpectrogramColumns, drawTagRegion, drawTimeRuler, getThemeColor, type PixelRange, prepareCanvas, TIME_RULER_HEIGHT } from "./features/waveform-viewer/utils/canvas";
+import { getChannelLabels } from "./features/waveform-viewer/utils/channels";
+import { downloadBlob, replaceExtension } from "./features/waveform-viewer/utils/download";
+import { formatBytes } from "./features/waveform-viewer/utils/format";
+import { getLoopBounds, resolveLoopRange } from "./features/waveform-viewer/utils/loop";
+import { getDownmixPeaks } from "./features/waveform-viewer/utils/peaks";
+import { canReadSamples, downmixSamples } from "./features/waveform-viewer/utils/samples";
+import { getFileFingerprint } from "./features/waveform-viewer/utils/sessionStore";
+import { getColorTable, getFramesPerColumn, getRowBins } from "./features/waveform-viewer/utils/spectrogram";
+import { TAG_IMPORT_ACCEPT } from "./features/waveform-viewer/utils/tagImport";
+import { getTagColor, getTagLabel } from "./features/waveform-viewer/utils/tags";
+import { formatTimecode } from "./features/waveform-viewer/utils/time";
+import { writeWavWithMarkers } from "./features/waveform-viewer/utils/wavWriter";
+import { formatZoomLevel, ZOOM_STEP } from "./features/waveform-viewer/utils/zoom";
+
+// Wheel zoom factor per pixel of wheel delta, and pixels per wheel "line" on mice that scroll by lines
+const WHEEL_ZOOM_SPEED = 0.002;
+const WHEEL_LINE_HEIGHT = 16;
+// Half-width of the strip holding the playhead line and its handle
+const PLAYHEAD_CLEAR_RADIUS = 8;
+// Pixels either side of a tag edge that grab it
+const TAG_EDGE_TOLERANCE = 5;
+
+// Only a hint for the file picker, the decoder is chosen from the file's contents
+const AUDIO_FILE_ACCEPT = "audio/*,.wav,.bwf,.rf64,.mp3,.flac,.ogg,.oga,.opus,.m4a,.mp4,.aac,.aif,.aiff,.caf,.webm";
 
 export function WaveformViewer() {
-    const [state, dispatch] = useWaveformReducer();
+    const [state, dispatch, history] = useWaveformReducer();
+    const sessions = useSessionStore(state, dispatch);
     const fileInputRef = useRef<HTMLInputElement>(null);
-    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const tagFileInputRef = useRef<HTMLInputElement>(null);
+    // Tag file waiting for the import preview to be confirmed
+    const [tagImport, setTagImport] = useState<{ fileName: string; text: string } | null>(null);
+    const rulerCanvasRef = useRef<HTMLCanvasElement>(null);
+    const markersCanvasRef = useRef<HTMLCanvasElement>(null);
+    const playheadCanvasRef = useRef<HTMLCanvasElement>(null);
+    const lastPlayheadRef = useRef<{ x: number; scrollLeft: number; pixelsPerSecond: number; height: number; pending: boolean } | null>(null);
+    // Browsers that can't load the time-stretch worklet play faster or slower at a shifted pitch
+    const [pitchShiftAvailable, setPitchShiftAvailable] = useState(true);
+    // File that failed to decode for playback, loading another one clears the error
+    const [playbackFailedFile, setPlaybackFailedFile] = useState<Blob | null>(null);
+    // Tag edge being dragged on the canvas
+    const [tagEdgeDrag, setTagEdgeDrag] = useState<{ id: string; edge: "start" | "end" } | null>(null);
     const containerRef = useRef<HTMLDivElement>(null);
+    const viewportRef = useRef<HTMLDivElement>(null);
     const wasPlayingBeforeDragRef = useRef(false);
 
     // Destructure state for easier access
-    const { audioData, fileName, loading, screenWidth, isPlaying, currentTime, startPosition, tags, pendingTagStart } = state;
+    const { audioData, fileName, loading, loadProgress, currentTime, startPosition, tags, pendingTagStart, selectedTag, tagCategories, channelView, downmix } = state;
 
     // Audio service hook - use useMemo to stabilize callbacks
     const audioCallbacks = useMemo(
@@ -29,228 +86,377 @@ export function WaveformViewer() {
                 dispatch({ type: "TIME_UPDATE", payload: { time } });
             },
             onEnded: () => {
-                // Only update time if we're actually playing (not already paused)
-                // The pause() function already updates the time when pausing
-                dispatch({ type: "PAUSE" });
-                if (state.audioData && state.isPlaying) {
-                    dispatch({ type: "TIME_UPDATE", payload: { time: state.audioData.duration } });
-                }
+                dispatch({ type: "PLAYBACK_ENDED" });
             },
+            onPitchShiftAvailabilityChange: setPitchShiftAvailable,
         }),
-        [state.audioData, dispatch, state.isPlaying]
+        [dispatch]
     );
 
-    const audioService = useAudioService(state.isPlaying, state.isDragging, audioCallbacks);
+    const isPlaying = state.transport === "playing";
+    const playbackUnavailable = audioData ? (getPlaybackUnavailableReason(audioData) ?? (playbackFailedFile === audioData.file ? "Playback failed: the browser couldn't decode this file" : null)) : null;
+    const audioService = useAudioService(isPlaying, state.isDragging, audioCallbacks);
 
-    const calculateCanvasWidthMemo = useCallback(
-        (duration: number): number => {
-            return calculateCanvasWidth(duration, state.screenWidth);
+    // Loop range as set, and the padded range playback repeats while looping
+    const loopRange = useMemo(() => resolveLoopRange(state.loop, state.tags), [state.loop, state.tags]);
+    const loopBounds = useMemo(() => (state.audioData ? getLoopBounds(loopRange, state.loopPreRoll, state.loopPostRoll, state.audioData.duration) : null), [loopRange, state.loopPreRoll, state.loopPostRoll, state.audioData]);
+    const loopStart = state.loopEnabled ? (loopBounds?.start ?? null) : null;
+    const loopEnd = state.loopEnabled ? (loopBounds?.end ?? null) : null;
+    useEffect(() => {
+        audioService.setLoop(loopStart !== null && loopEnd !== null ? { start: loopStart, end: loopEnd } : null);
+    }, [audioService.setLoop, loopStart, loopEnd]);
+    useEffect(() => {
+        audioService.setPlaybackRate(state.playbackRate, state.preservePitch);
+    }, [audioService.setPlaybackRate, state.playbackRate, state.preservePitch]);
+    const audioDecoder = useAudioDecoder();
+
+    const { pixelsPerSecond, scrollLeft, viewportWidth } = state;
+    const channelLabels = useMemo(() => (state.audioData ? getChannelLabels(state.audioData) : []), [state.audioData]);
+    const contentWidth = state.audioData ? Math.max(1, Math.ceil(state.audioData.duration * pixelsPerSecond)) : 1;
+    const viewport = useMemo(() => ({ start: scrollLeft, end: scrollLeft + viewportWidth }), [scrollLeft, viewportWidth]);
+
+    const handleViewportResize = useCallback((width: number) => dispatch({ type: "RESIZE", payload: { viewportWidth: width } }), [dispatch]);
+    useElementWidth(viewportRef, state.audioData !== null, handleViewportResize);
+
+    // Past the finest peak level, WAV sources are drawn from raw samples read around the view
+    const sampleRate = state.audioData?.sampleRate ?? 1;
+    const framesPerPixel = sampleRate / pixelsPerSecond;
+    const canRead = state.audioData !== null && canReadSamples(state.audioData);
+    // Spectrograms are computed from raw frames too, other sources stay on the waveform
+    const displayMode = canRead ? state.displayMode : "waveform";
+    const sampleMode = canRead && displayMode !== "spectrogram" && state.audioData !== null && framesPerPixel < state.audioData.mixPeaks.average.levels[0].samplesPerPeak;
+    const sampleWindow = useSampleWindow(state.audioData, Math.floor(viewport.start * framesPerPixel), Math.ceil(viewport.end * framesPerPixel), sampleMode);
+
+    // One lane for the mixed view, or one stacked lane per channel
+    const lanes = useMemo(() => {
+        if (!state.audioData || displayMode === "spectrogram") return [];
+        if (state.channelView === "lanes") {
+            return state.audioData.channelPeaks.map((peaks, ch) => ({ peaks, samples: sampleWindow?.channelData[ch] ?? null, label: channelLabels[ch] ?? "" }));
+        }
+        return [{ peaks: getDownmixPeaks(state.audioData, state.downmix), samples: sampleWindow ? downmixSamples(sampleWindow, state.downmix) : null, label: "" }];
+    }, [state.audioData, state.channelView, state.downmix, channelLabels, sampleWindow, displayMode]);
+
+    // The overview always shows the whole file as one lane
+    const overviewPeaks = useMemo(() => (state.audioData ? getDownmixPeaks(state.audioData, state.downmix) : null), [state.audioData, state.downmix]);
+
+    // Every time readout follows the global time format
+    const displayTime = useCallback((seconds: number) => formatTimecode(seconds, state.timeFormat, sampleRate), [state.timeFormat, sampleRate]);
+
+    const { laneHeight } = state;
+    // Waveform lanes on top, the spectrogram stacked under them
+    const waveformHeight = laneHeight * lanes.length;
+    const spectrogramHeight = displayMode === "waveform" ? 0 : laneHeight;
+    const canvasHeight = Math.max(laneHeight, waveformHeight + spectrogramHeight);
+    const amplitude = useMemo(() => ({ scale: state.amplitudeScale, zoom: state.amplitudeZoom }), [state.amplitudeScale, state.amplitudeZoom]);
+
+    const { spectrogram } = state;
+    const framesPerColumn = getFramesPerColumn(spectrogram, framesPerPixel);
+    const getSpectrogramColumns = useSpectrogram(spectrogramHeight > 0 ? state.audioData : null, state.downmix, spectrogram, framesPerColumn);
+    const spectrogramRows = useMemo(() => getRowBins(spectrogramHeight, spectrogram.frequencyScale, sampleRate, spectrogram.fftSize), [spectrogramHeight, spectrogram.frequencyScale, spectrogram.fftSize, sampleRate]);
+
+    // Static layer: background, center lines and peaks, painted per tile. Tiles repaint only when the file, zoom or view changes
+    const drawWaveformTile = useCallback(
+        (ctx: CanvasRenderingContext2D, tile: PixelRange) => {
+            if (!state.audioData) return;
+            const tileWidth = tile.end - tile.start;
+
+            // Clear tile with background color
+            ctx.fillStyle = getThemeColor("--background", "oklch(0.145 0 0)");
+            ctx.fillRect(0, 0, tileWidth, canvasHeight);
+
+            const waveformColor = getThemeColor("--primary", "oklch(0.205 0 0)");
+            const rmsColor = getThemeColor("--muted-foreground", "oklch(0.556 0 0)");
+            const separatorColor = getThemeColor("--border", "oklch(0.922 0 0)");
+            // Raw samples are only used when they cover the whole tile, otherwise peaks stand in until they load
+            const tileHasSamples = sampleWindow !== null && sampleWindow.startFrame <= Math.floor(tile.start * framesPerPixel) && sampleWindow.startFrame + sampleWindow.length >= Math.min(Math.ceil(tile.end * framesPerPixel), state.audioData.frameCount);
+
+            lanes.forEach((lane, index) => {
+                const top = index * laneHeight;
+                const centerY = top + laneHeight / 2;
+
+                // Draw center line with border color
+                ctx.strokeStyle = separatorColor;
+                ctx.lineWidth = 1;
+                ctx.beginPath();
+                ctx.moveTo(0, centerY);
+                ctx.lineTo(tileWidth, centerY);
+                if (index > 0) {
+                    ctx.moveTo(0, top);
+                    ctx.lineTo(tileWidth, top);
+                }
+                ctx.stroke();
+
+                // Draw waveform with primary color, RMS in a lighter shade inside it
+                ctx.strokeStyle = waveformColor;
+                if (tileHasSamples && lane.samples && sampleWindow) {
+                    drawSamplesLane(ctx, lane.samples, sampleWindow.startFrame, 1 / framesPerPixel, top, laneHeight, tile, amplitude);
+                } else {
+                    drawPeaksLane(ctx, lane.peaks, framesPerPixel, top, laneHeight, tile, amplitude, rmsColor);
+                }
+            });
+
+            // Spectrogram columns line up across tiles, the first one may start left of the tile
+            if (spectrogramHeight > 0) {
+                const pixelsPerColumn = framesPerColumn / framesPerPixel;
+                const firstColumn = Math.floor(tile.start / pixelsPerColumn);
+                const endColumn = Math.min(Math.ceil(tile.end / pixelsPerColumn), Math.ceil(state.audioData.frameCount / framesPerColumn));
+                const columns = getSpectrogramColumns(firstColumn, endColumn - firstColumn);
+                if (columns) {
+                    drawSpectrogramColumns(ctx, columns, firstColumn * pixelsPerColumn - tile.start, pixelsPerColumn, waveformHeight, spectrogramRows, getColorTable(spectrogram.colorMap));
+                }
+                if (waveformHeight > 0) {
+                    ctx.strokeStyle = separatorColor;
+                    ctx.beginPath();
+                    ctx.moveTo(0, waveformHeight);
+                    ctx.lineTo(tileWidth, waveformHeight);
+                    ctx.stroke();
+                }
+            }
         },
-        [state.screenWidth]
+        [state.audioData, lanes, framesPerPixel, sampleWindow, laneHeight, canvasHeight, amplitude, spectrogramHeight, framesPerColumn, getSpectrogramColumns, waveformHeight, spectrogramRows, spectrogram.colorMap]
     );
 
-    const drawWaveform = useCallback(() => {
-        const canvas = canvasRef.current;
-        if (!canvas || !state.audioData) {
-            return;
-        }
+    // Markers layer: things that change on user edits or scrolling, not during playback
+    const drawMarkers = useCallback(() => {
+        const canvas = markersCanvasRef.current;
+        if (!canvas || !state.audioData) return;
 
-        const ctx = canvas.getContext("2d");
+        const ctx = prepareCanvas(canvas, viewportWidth, canvasHeight);
         if (!ctx) return;
+        ctx.clearRect(0, 0, viewportWidth, canvasHeight);
+
+        // Tag regions under everything else, only the ones reaching into the view
+        const tagColor = getThemeColor("--chart-2", "oklch(0.6 0.118 184.704)");
+        state.tags.forEach((tag, index) => {
+            const x0 = tag.start * pixelsPerSecond - scrollLeft;
+            const x1 = tag.end * pixelsPerSecond - scrollLeft;
+            if (x1 < 0 || x0 > viewportWidth) return;
+            drawTagRegion(ctx, x0, x1, canvasHeight, `${index + 1} · ${getTagLabel(tag, index)}`, getTagColor(tag, state.tagCategories, tagColor), tag.id === state.selectedTag);
+        });
+
+        if (loopRange && loopBounds) {
+            const toX = (time: number) => time * pixelsPerSecond - scrollLeft;
+            const colors = { loop: getThemeColor("--chart-5", "oklch(0.769 0.188 70.08)"), shade: getThemeColor("--background", "oklch(0.145 0 0)") };
+            drawLoopRegion(ctx, { start: toX(loopRange.start), end: toX(loopRange.end) }, { start: toX(loopBounds.start), end: toX(loopBounds.end) }, viewportWidth, canvasHeight, colors, state.loopEnabled);
+        }
 
-        // Get CSS variables for colors
-        const root = document.documentElement;
-        const bgColor = getComputedStyle(root).getPropertyValue("--background").trim() || "oklch(0.145 0 0)";
-        const borderColor = getComputedStyle(root).getPropertyValue("--border").trim() || "oklch(0.922 0 0)";
-        const primaryColor = getComputedStyle(root).getPropertyValue("--primary").trim() || "oklch(0.205 0 0)";
-        const destructiveColor = getComputedStyle(root).getPropertyValue("--destructive").trim() || "oklch(0.577 0.245 27.325)";
-        const chart1Color = getComputedStyle(root).getPropertyValue("--chart-1").trim() || "oklch(0.646 0.222 41.116)";
-
-        const { samples, duration } = state.audioData;
-        const dpr = window.devicePixelRatio || 1;
-
-        // Calculate canvas width based on 60 minutes = screen width
-        const displayWidth = Math.max(1, calculateCanvasWidthMemo(duration));
-        const displayHeight = 256; // Fixed height
-        const width = Math.max(1, displayWidth * dpr);
-        const height = Math.max(1, displayHeight * dpr);
-
-        // Set canvas internal size and CSS width
-        canvas.width = width;
-        canvas.height = height;
-        canvas.style.width = `${displayWidth}px`;
-        canvas.style.height = `${displayHeight}px`;
-
-        // Reset transform and scale context for high DPI displays
-        ctx.setTransform(1, 0, 0, 1, 0, 0);
-        ctx.scale(dpr, dpr);
-
-        const centerY = displayHeight / 2;
-
-        // Clear canvas with background color
-        ctx.fillStyle = cssColorToRgb(bgColor);
-        ctx.fillRect(0, 0, displayWidth, displayHeight);
-
-        // Draw center line with border color
-        ctx.strokeStyle = cssColorToRgb(borderColor);
-        ctx.lineWidth = 1;
-        ctx.beginPath();
-        ctx.moveTo(0, centerY);
-        ctx.lineTo(displayWidth, centerY);
-        ctx.stroke();
-
-        // Calculate samples per pixel for downsampling
-        const samplesPerPixel: number = Math.max(1, Number(samples.length) / Number(displayWidth));
-        const minValues = new Float32Array(displayWidth);
-        const maxValues = new Float32Array(displayWidth);
-
-        // Downsample and find min/max for each pixel
-        for (let i = 0; i < displayWidth; i++) {
-            let min = 1;
-            let max = -1;
-            const pixelOffset: number = i * samplesPerPixel;
-            const nextPixelOffset: number = (i + 1) * samplesPerPixel;
-            const start: number = Math.floor(pixelOffset);
-            const end: number = Math.min(Math.floor(nextPixelOffset), samples.length);
-
-            if (start < samples.length && end > start) {
-                for (let j = start; j < end; j++) {
-                    const value = samples[j];
-                    if (value !== undefined && !Number.isNaN(value)) {
-                        min = Math.min(min, value);
-                        max = Math.max(max, value);
-                    }
-                }
+        // Amplitude rulers and lane labels stay pinned to the left edge of the view
+        const rulerColors = { background: getThemeColor("--background", "oklch(0.145 0 0)"), text: getThemeColor("--muted-foreground", "oklch(0.556 0 0)") };
+        lanes.forEach((lane, index) => {
+            drawAmplitudeRuler(ctx, index * laneHeight, laneHeight, amplitude, rulerColors);
+            if (lane.label) {
+                ctx.fillStyle = getThemeColor("--primary", "oklch(0.205 0 0)");
+                ctx.font = "11px sans-serif";
+                ctx.textBaseline = "top";
+                ctx.fillText(lane.label, AMPLITUDE_RULER_WIDTH + 4, index * laneHeight + 4);
             }
+        });
 
-            minValues[i] = min;
-            maxValues[i] = max;
+        if (spectrogramHeight > 0) {
+            drawFrequencyRuler(ctx, waveformHeight, spectrogramHeight, spectrogram.frequencyScale, state.audioData.sampleRate, spectrogram.fftSize, rulerColors);
         }
 
-        // Draw waveform with primary color
-        ctx.strokeStyle = cssColorToRgb(primaryColor);
-        ctx.fillStyle = cssColorToRgb(primaryColor);
-        ctx.lineWidth = 1;
+        // Draw start position marker (if set) with chart color
+        if (state.startPosition > 0) {
+            const startX = state.startPosition * pixelsPerSecond - scrollLeft;
+            ctx.strokeStyle = getThemeColor("--chart-1", "oklch(0.646 0.222 41.116)");
+            ctx.lineWidth = 1;
+            ctx.setLineDash([4, 4]);
+            ctx.beginPath();
+            ctx.moveTo(startX, 0);
+            ctx.lineTo(startX, canvasHeight);
+            ctx.stroke();
+            ctx.setLineDash([]);
+        }
+    }, [state.audioData, state.startPosition, state.tags, state.selectedTag, state.tagCategories, loopRange, loopBounds, state.loopEnabled, lanes, pixelsPerSecond, scrollLeft, viewportWidth, laneHeight, canvasHeight, amplitude, spectrogramHeight, waveformHeight, spectrogram.frequencyScale, spectrogram.fftSize]);
 
-        for (let i = 0; i < displayWidth; i++) {
-            const min = minValues[i] ?? 0;
-            const max = maxValues[i] ?? 0;
+    // Playhead layer: redrawn every animation frame, so it only clears the strip it drew last time
+    const drawPlayhead = useCallback(() => {
+        const canvas = playheadCanvasRef.current;
+        if (!canvas || !state.audioData) return;
 
-            const minY = centerY - min * centerY;
-            const maxY = centerY - max * centerY;
+        const ctx = prepareCanvas(canvas, viewportWidth, canvasHeight);
+        if (!ctx) return;
 
-            // Draw vertical line for each pixel (Audacity style)
-            ctx.beginPath();
-            ctx.moveTo(i, minY);
-            ctx.lineTo(i, maxY);
-            ctx.stroke();
+        // Scrolling or zooming moves everything drawn so far, as does a growing pending tag, otherwise only the last strip is stale
+        const last = lastPlayheadRef.current;
+        if (last && !last.pending && state.pendingTagStart === null && last.scrollLeft === scrollLeft && last.pixelsPerSecond === pixelsPerSecond && last.height === canvasHeight) {
+            ctx.clearRect(last.x - PLAYHEAD_CLEAR_RADIUS, 0, PLAYHEAD_CLEAR_RADIUS * 2, canvasHeight);
+        } else {
+            ctx.clearRect(0, 0, viewportWidth, canvasHeight);
         }
+        lastPlayheadRef.current = null;
 
         // Draw playhead (current playback position) - make it thicker for easier dragging
-        if (duration > 0 && state.currentTime !== undefined) {
-            const playheadX = Math.max(0, Math.min((state.currentTime / duration) * displayWidth, displayWidth));
-            ctx.strokeStyle = cssColorToRgb(destructiveColor);
-            ctx.lineWidth = state.isDragging ? 3 : 2;
-            ctx.beginPath();
-            ctx.moveTo(playheadX, 0);
-            ctx.lineTo(playheadX, displayHeight);
-            ctx.stroke();
+        const playheadX = Math.min(state.currentTime, state.audioData.duration) * pixelsPerSecond - scrollLeft;
 
-            // Draw a small circle at top for better visibility
-            ctx.fillStyle = cssColorToRgb(destructiveColor);
-            ctx.beginPath();
-            ctx.arc(playheadX, 8, 6, 0, Math.PI * 2);
-            ctx.fill();
+        // The pending tag grows from its start toward the playhead, so it lives on this layer
+        const pending = state.pendingTagStart !== null;
+        if (state.pendingTagStart !== null) {
+            const startX = state.pendingTagStart * pixelsPerSecond - scrollLeft;
+            drawTagRegion(ctx, Math.min(startX, playheadX), Math.max(startX, playheadX), canvasHeight, `${state.tags.length + 1} · Pending`, getThemeColor("--chart-4", "oklch(0.828 0.189 84.429)"), false);
         }
 
-        // Draw start position marker (if set) with chart color
-        if (state.startPosition > 0 && duration > 0) {
-            const startX = (state.startPosition / duration) * displayWidth;
-            ctx.strokeStyle = cssColorToRgb(chart1Color);
-            ctx.lineWidth = 1;
-            ctx.setLineDash([4, 4]);
-            ctx.beginPath();
-            ctx.moveTo(startX, 0);
-            ctx.lineTo(startX, displayHeight);
-            ctx.stroke();
-            ctx.setLineDash([]);
+        if (playheadX < -PLAYHEAD_CLEAR_RADIUS || playheadX > viewportWidth + PLAYHEAD_CLEAR_RADIUS) {
+            lastPlayheadRef.current = pending ? { x: playheadX, scrollLeft, pixelsPerSecond, height: canvasHeight, pending } : null;
+            return;
         }
-    }, [state.audioData, state.currentTime, state.startPosition, state.isDragging, calculateCanvasWidthMemo]);
 
-    // Redraw waveform when currentTime changes (for playhead movement)
+        const playheadColor = getThemeColor("--destructive", "oklch(0.577 0.245 27.325)");
+        ctx.strokeStyle = playheadColor;
+        ctx.lineWidth = state.isDragging ? 3 : 2;
+        ctx.beginPath();
+        ctx.moveTo(playheadX, 0);
+        ctx.lineTo(playheadX, canvasHeight);
+        ctx.stroke();
+
+        // Draw a small circle at top for better visibility
+        ctx.fillStyle = playheadColor;
+        ctx.beginPath();
+        ctx.arc(playheadX, 8, 6, 0, Math.PI * 2);
+        ctx.fill();
+        lastPlayheadRef.current = { x: playheadX, scrollLeft, pixelsPerSecond, height: canvasHeight, pending };
+    }, [state.audioData, state.currentTime, state.isDragging, state.pendingTagStart, state.tags.length, pixelsPerSecond, scrollLeft, viewportWidth, canvasHeight]);
+
     useEffect(() => {
-        if (!state.audioData) return;
-        drawWaveform();
-    }, [state.currentTime, state.audioData, drawWaveform]);
+        drawMarkers();
+    }, [drawMarkers]);
+
+    useEffect(() => {
+        drawPlayhead();
+    }, [drawPlayhead]);
+
+    // Time ruler above the layers, follows zoom, scroll and the time format
+    useEffect(() => {
+        const canvas = rulerCanvasRef.current;
+        if (!canvas || !state.audioData) return;
+        const ctx = prepareCanvas(canvas, viewportWidth, TIME_RULER_HEIGHT);
+        if (!ctx) return;
+        const colors = { background: getThemeColor("--muted", "oklch(0.97 0 0)"), text: getThemeColor("--muted-foreground", "oklch(0.556 0 0)") };
+        drawTimeRuler(ctx, { width: viewportWidth, scrollLeft, pixelsPerSecond, duration: state.audioData.duration }, state.timeFormat, state.audioData.sampleRate, colors);
+    }, [state.audioData, state.timeFormat, scrollLeft, pixelsPerSecond, viewportWidth]);
+
+    // Ctrl/Cmd + wheel zooms around the cursor, horizontal or Shift + wheel scrolls.
+    // Registered by hand because React's wheel listeners are passive and can't stop the browser's own zoom.
+    useEffect(() => {
+        const element = viewportRef.current;
+        if (!element || !state.audioData) return;
+
+        const handleWheel = (event: WheelEvent) => {
+            const deltaScale = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_LINE_HEIGHT : event.deltaMode === WheelEvent.DOM_DELTA_PAGE ? element.clientWidth : 1;
+            if (event.ctrlKey || event.metaKey) {
+                event.preventDefault();
+                const anchorX = event.clientX - element.getBoundingClientRect().left - element.clientLeft;
+                dispatch({ type: "ZOOM", payload: { factor: Math.exp(-event.deltaY * deltaScale * WHEEL_ZOOM_SPEED), anchorX } });
+            } else if (event.shiftKey || Math.abs(event.deltaX) > Math.abs(event.deltaY)) {
+                event.preventDefault();
+                const delta = event.deltaX !== 0 ? event.deltaX : event.deltaY;
+                dispatch({ type: "SCROLL_BY", payload: { delta: delta * deltaScale } });
+            }
+        };
+
+        element.addEventListener("wheel", handleWheel, { passive: false });
+        return () => element.removeEventListener("wheel", handleWheel);
+    }, [state.audioData, dispatch]);
 
     // Effect to handle play/pause state changes
     useEffect(() => {
         if (!state.audioData) return;
 
         // Only auto-play/pause when not dragging (manual dragging handles its own playback)
-        if (state.isPlaying && !state.isDragging) {
+        if (isPlaying && !state.isDragging) {
             // Initialize audio if needed, then play
             audioService
-                .initialize(state.audioData.audioBuffer)
+                .initialize(state.audioData.file)
                 .then(() => {
                     // Only play if still in playing state (state might have changed during async init)
-                    if (state.isPlaying && !state.isDragging) {
-                        audioService.play(state.audioData!, state.startPosition);
+                    if (isPlaying && !state.isDragging) {
+                        audioService.play(state.audioData!, state.playFrom.time);
                     }
                 })
                 .catch((error) => {
                     console.error("Failed to initialize audio:", error);
+                    setPlaybackFailedFile(state.audioData?.file ?? null);
+                    dispatch({ type: "PAUSE" });
                 });
-        } else if (!state.isPlaying) {
+        } else if (!isPlaying) {
             audioService.pause();
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [state.isPlaying, state.isDragging, state.audioData, state.startPosition]);
+    }, [isPlaying, state.isDragging, state.audioData, state.playFrom, dispatch]);
 
+    // Tape-style scrubbing: while the playhead is dragged, what it passes over plays at the speed and in the direction it moves
+    const scrubFile = state.isDragging && state.scrubAudio && !playbackUnavailable ? (state.audioData?.file ?? null) : null;
     useEffect(() => {
-        if (state.audioData) {
-            drawWaveform();
-        }
-    }, [state.audioData, drawWaveform]);
-
+        if (!scrubFile) return;
+        audioService.startScrub(scrubFile);
+        return audioService.stopScrub;
+    }, [audioService.startScrub, audioService.stopScrub, scrubFile]);
     useEffect(() => {
-        const handleResize = () => {
-            dispatch({ type: "RESIZE", payload: { screenWidth: window.innerWidth } });
-            if (state.audioData) {
-                drawWaveform();
-            }
-        };
-
-        window.addEventListener("resize", handleResize);
-        return () => window.removeEventListener("resize", handleResize);
-    }, [state.audioData, drawWaveform, dispatch]);
+        if (scrubFile) audioService.scrub(currentTime);
+    }, [audioService.scrub, scrubFile, currentTime]);
 
+    // Pause keeps the position, playing again resumes from it (the effect will handle initialization and playback)
     const handlePlayPause = () => {
-        if (!state.audioData) return;
+        if (!state.audioData || (!isPlaying && playbackUnavailable)) return;
+        dispatch({ type: isPlaying ? "PAUSE" : "PLAY" });
+    };
 
-        if (state.isPlaying) {
-            // Pause and reset to start position
-            dispatch({ type: "PAUSE" });
-            dispatch({ type: "SEEK", payload: { time: state.startPosition } });
-            drawWaveform();
-        } else {
-            // Play from start position (the effect will handle initialization and playback)
-            dispatch({ type: "PLAY" });
-            dispatch({ type: "SEEK", payload: { time: state.startPosition } });
-            drawWaveform();
-        }
+    const handleStop = () => {
+        // Stop the source first so its final time update doesn't land after the return to the start marker
+        audioService.pause();
+        dispatch({ type: "STOP" });
+        audioService.seek(state.startPosition);
     };
 
-    // Keyboard shortcuts for spacebar (play/pause) and 'A' key (tagging)
+    // Keyboard shortcuts for spacebar (play/pause), Home (stop), arrows (previous/next tag), 'A' key (tagging) and Ctrl/Cmd + Z (undo, with Shift to redo)
     useKeyboardShortcuts({
-        KeyA: () => {
+        KeyZ: (event) => {
+            if (!event.ctrlKey && !event.metaKey) return false;
+            dispatch({ type: event.shiftKey ? "REDO" : "UNDO" });
+        },
+        KeyY: (event) => {
+            if (!event.ctrlKey && !event.metaKey) return false;
+            dispatch({ type: "REDO" });
+        },
+        KeyA: (event) => {
+            if (hasModifier(event)) return false;
             if (!state.audioData) return;
             dispatch({ type: "TOGGLE_TAG", payload: { currentTime: state.currentTime } });
         },
-        a: () => {
+        a: (event) => {
+            if (hasModifier(event)) return false;
             if (!state.audioData) return;
             dispatch({ type: "TOGGLE_TAG", payload: { currentTime: state.currentTime } });
         },
+        BracketLeft: (event) => {
+            if (hasModifier(event)) return false;
+            if (state.audioData) dispatch({ type: "SET_LOOP_POINT", payload: { point: "start", time: state.currentTime } });
+        },
+        BracketRight: (event) => {
+            if (hasModifier(event)) return false;
+            if (state.audioData) dispatch({ type: "SET_LOOP_POINT", payload: { point: "end", time: state.currentTime } });
+        },
+        KeyL: (event) => {
+            if (hasModifier(event)) return false;
+            dispatch({ type: "SET_LOOP_ENABLED", payload: { enabled: !state.loopEnabled } });
+        },
+        Home: (event) => {
+            if (hasModifier(event)) return false;
+            handleStop();
+        },
+        ArrowLeft: (event) => {
+            if (hasModifier(event)) return false;
+            dispatch({ type: "SKIP_TAG", payload: { direction: "previous" } });
+        },
+        ArrowRight: (event) => {
+            if (hasModifier(event)) return false;
+            dispatch({ type: "SKIP_TAG", payload: { direction: "next" } });
+        },
+        KeyF: (event) => {
+            if (hasModifier(event)) return false;
+            dispatch({ type: "SET_FOLLOW_PLAYHEAD", payload: { follow: !state.followPlayhead } });
+        },
         Space: () => {
             handlePlayPause();
         },
@@ -261,59 +467,85 @@ export function WaveformViewer() {
 
     const getTimeFromX = useCallback(
         (clientX: number): number => {
-            if (!state.audioData || !canvasRef.current) return 0;
-            const canvas = canvasRef.current;
+            if (!state.audioData || !playheadCanvasRef.current) return 0;
+            const canvas = playheadCanvasRef.current;
             const rect = canvas.getBoundingClientRect();
-            const x = clientX - rect.left;
-            const displayWidth = calculateCanvasWidthMemo(state.audioData.duration);
-            const clickPosition = Math.max(0, Math.min(1, x / displayWidth));
-            return Math.max(0, Math.min(clickPosition * state.audioData.duration, state.audioData.duration));
+            const x = clientX - rect.left + scrollLeft;
+            return Math.max(0, Math.min(x / pixelsPerSecond, state.audioData.duration));
         },
-        [state.audioData, calculateCanvasWidthMemo]
+        [state.audioData, pixelsPerSecond, scrollLeft]
     );
 
     const isClickNearPlayhead = useCallback(
         (clientX: number, tolerance: number = 15): boolean => {
-            if (!state.audioData || !canvasRef.current) return false;
-            const canvas = canvasRef.current;
+            if (!state.audioData || !playheadCanvasRef.current) return false;
+            const canvas = playheadCanvasRef.current;
             const rect = canvas.getBoundingClientRect();
             const x = clientX - rect.left;
-            const displayWidth = calculateCanvasWidthMemo(state.audioData.duration);
-            const playheadX = (state.currentTime / state.audioData.duration) * displayWidth;
+            const playheadX = state.currentTime * pixelsPerSecond - scrollLeft;
             return Math.abs(x - playheadX) <= tolerance;
         },
-        [state.audioData, state.currentTime, calculateCanvasWidthMemo]
+        [state.audioData, state.currentTime, pixelsPerSecond, scrollLeft]
     );
 
-    const seekToTime = useCallback(
-        (time: number, pauseAudio: boolean = false) => {
-            if (!state.audioData) return;
-
-            const wasPlaying = state.isPlaying && !pauseAudio;
-
-            if (state.isPlaying) {
-                audioService.pause();
+    // Tag edge within reach of the pointer, the closest one wins
+    const findTagEdge = useCallback(
+        (clientX: number): { id: string; edge: "start" | "end" } | null => {
+            if (!playheadCanvasRef.current) return null;
+            const x = clientX - playheadCanvasRef.current.getBoundingClientRect().left;
+            let closest: { id: string; edge: "start" | "end"; distance: number } | null = null;
+            for (const tag of state.tags) {
+                for (const edge of ["start", "end"] as const) {
+                    const distance = Math.abs(tag[edge] * pixelsPerSecond - scrollLeft - x);
+                    if (distance <= TAG_EDGE_TOLERANCE && (!closest || distance < closest.distance)) {
+                        closest = { id: tag.id, edge, distance };
+                    }
+                }
             }
+            return closest && { id: closest.id, edge: closest.edge };
+        },
+        [state.tags, pixelsPerSecond, scrollLeft]
+    );
 
-            if (pauseAudio) {
-                dispatch({ type: "PAUSE" });
+    // Innermost tag containing the time, so nested regions stay selectable
+    const findTagAt = useCallback(
+        (time: number): string | null => {
+            let found: Tag | null = null;
+            for (const tag of state.tags) {
+                if (time >= tag.start && time <= tag.end && (!found || tag.end - tag.start < found.end - found.start)) {
+                    found = tag;
+                }
             }
+            return found?.id ?? null;
+        },
+        [state.tags]
+    );
+
+    const moveTagEdge = useCallback(
+        (clientX: number) => {
+            const tag = tagEdgeDrag && state.tags.find((existing) => existing.id === tagEdgeDrag.id);
+            if (!tagEdgeDrag || !tag || !state.audioData) return;
+            // An edge stops one frame short of the other
+            const time = getTimeFromX(clientX);
+            const minLength = 1 / state.audioData.sampleRate;
+            const changes = tagEdgeDrag.edge === "start" ? { start: Math.min(time, tag.end - minLength) } : { end: Math.max(time, tag.start + minLength) };
+            dispatch({ type: "UPDATE_TAG", payload: { id: tag.id, changes } });
+        },
+        [tagEdgeDrag, state.tags, state.audioData, getTimeFromX, dispatch]
+    );
 
+    const seekToTime = useCallback(
+        (time: number) => {
+            if (!state.audioData) return;
+            // Playback carries on from the new position by itself
             dispatch({ type: "SEEK", payload: { time } });
             audioService.seek(time);
-
-            // If it was playing and not pausing, continue from new position
-            if (wasPlaying) {
-                dispatch({ type: "PLAY" });
-            }
-
-            drawWaveform();
         },
-        [state.audioData, state.isPlaying, drawWaveform, dispatch, audioService]
+        [state.audioData, dispatch, audioService]
     );
 
     const handleCanvasMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
-        if (!state.audioData || !canvasRef.current) return;
+        if (!state.audioData || !playheadCanvasRef.current) return;
 
         event.preventDefault();
         const isNearPlayhead = isClickNearPlayhead(event.clientX);
@@ -321,24 +553,32 @@ export function WaveformViewer() {
         if (isNearPlayhead) {
             // Start dragging playhead
             dispatch({ type: "DRAG_START" });
-            wasPlayingBeforeDragRef.current = state.isPlaying;
+            wasPlayingBeforeDragRef.current = isPlaying;
 
             // Pause audio when starting to drag
-            if (state.isPlaying) {
+            if (isPlaying) {
                 audioService.pause();
                 dispatch({ type: "PAUSE" });
             }
         } else {
-            // Regular click - set start position
+            const edge = findTagEdge(event.clientX);
+            if (edge) {
+                // Grab a tag edge to resize the tag
+                setTagEdgeDrag(edge);
+                dispatch({ type: "SELECT_TAG", payload: { id: edge.id } });
+                return;
+            }
+            // Regular click - select the tag under it and set start position
             const time = getTimeFromX(event.clientX);
+            dispatch({ type: "SELECT_TAG", payload: { id: findTagAt(time) } });
             dispatch({ type: "SET_START_POSITION", payload: { position: time } });
-            seekToTime(time, false);
+            seekToTime(time);
         }
     };
 
     const handleCanvasMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
-        // Mouse move on canvas is handled by global handler when dragging
-        // This is just for hover effects if needed
+        // Dragging is handled globally, hovering only hints that tag edges can be grabbed
+        event.currentTarget.style.cursor = tagEdgeDrag || (!state.isDragging && findTagEdge(event.clientX)) ? "ew-resize" : "";
     };
 
     const handleCanvasMouseUp = (event: React.MouseEvent<HTMLCanvasElement>) => {
@@ -349,19 +589,17 @@ export function WaveformViewer() {
         dispatch({ type: "DRAG_END" });
 
         // Don't auto-resume - user needs to click play
-        drawWaveform();
     };
 
     const handleCanvasMouseLeave = () => {
         if (state.isDragging) {
             dispatch({ type: "DRAG_END" });
-            drawWaveform();
         }
     };
 
     // Touch handlers for mobile
     const handleCanvasTouchStart = (event: React.TouchEvent<HTMLCanvasElement>) => {
-        if (!state.audioData || !canvasRef.current) return;
+        if (!state.audioData || !playheadCanvasRef.current) return;
         const touch = event.touches[0];
         if (!touch) return;
 
@@ -369,22 +607,36 @@ export function WaveformViewer() {
 
         if (isNearPlayhead) {
             dispatch({ type: "DRAG_START" });
-            wasPlayingBeforeDragRef.current = state.isPlaying;
+            wasPlayingBeforeDragRef.current = isPlaying;
 
-            if (state.isPlaying) {
+            if (isPlaying) {
                 audioService.pause();
                 dispatch({ type: "PAUSE" });
             }
 
             event.preventDefault();
         } else {
+            const edge = findTagEdge(touch.clientX);
+            if (edge) {
+                setTagEdgeDrag(edge);
+                dispatch({ type: "SELECT_TAG", payload: { id: edge.id } });
+                event.preventDefault();
+                return;
+            }
             const time = getTimeFromX(touch.clientX);
+            dispatch({ type: "SELECT_TAG", payload: { id: findTagAt(time) } });
             dispatch({ type: "SET_START_POSITION", payload: { position: time } });
-            seekToTime(time, false);
+            seekToTime(time);
         }
     };
 
     const handleCanvasTouchMove = (event: React.TouchEvent<HTMLCanvasElement>) => {
+        const tagTouch = event.touches[0];
+        if (tagEdgeDrag && tagTouch) {
+            moveTagEdge(tagTouch.clientX);
+            event.preventDefault();
+            return;
+        }
         if (!state.isDragging || !state.audioData) return;
         const touch = event.touches[0];
         if (!touch) return;
@@ -392,36 +644,31 @@ export function WaveformViewer() {
         const time = getTimeFromX(touch.clientX);
         dispatch({ type: "DRAG_MOVE", payload: { time } });
         audioService.seek(time);
-        drawWaveform();
         event.preventDefault();
     };
 
     const handleCanvasTouchEnd = () => {
+        setTagEdgeDrag(null);
         if (state.isDragging) {
             dispatch({ type: "DRAG_END" });
-            drawWaveform();
         }
     };
 
     // Handle mouse move and up globally for dragging
     useEffect(() => {
         const handleGlobalMouseMove = (event: MouseEvent) => {
-            if (state.isDragging && state.audioData && canvasRef.current) {
+            if (state.isDragging && state.audioData && playheadCanvasRef.current) {
                 const time = getTimeFromX(event.clientX);
                 dispatch({ type: "DRAG_MOVE", payload: { time } });
                 audioService.seek(time);
-                drawWaveform();
             }
         };
 
         const handleGlobalMouseUp = (event: MouseEvent) => {
             if (state.isDragging) {
-                const time = state.audioData && canvasRef.current ? getTimeFromX(event.clientX) : state.currentTime;
+                const time = state.audioData && playheadCanvasRef.current ? getTimeFromX(event.clientX) : state.currentTime;
                 audioService.seek(time);
                 dispatch({ type: "DRAG_END" });
-                if (state.audioData) {
-                    drawWaveform();
-                }
             }
         };
 
@@ -435,33 +682,81 @@ export function WaveformViewer() {
                 document.body.style.userSelect = "";
             };
         }
-    }, [state.isDragging, state.audioData, getTimeFromX, drawWaveform, dispatch]);
+    }, [state.isDragging, state.audioData, getTimeFromX, dispatch]);
+
+    // Tag edge drags follow the mouse outside the canvas too
+    useEffect(() => {
+        if (!tagEdgeDrag) return;
+
+        const handleGlobalMouseMove = (event: MouseEvent) => moveTagEdge(event.clientX);
+        const handleGlobalMouseUp = () => setTagEdgeDrag(null);
+
+        window.addEventListener("mousemove", handleGlobalMouseMove);
+        window.addEventListener("mouseup", handleGlobalMouseUp);
+        document.body.style.userSelect = "none";
+        return () => {
+            window.removeEventListener("mousemove", handleGlobalMouseMove);
+            window.removeEventListener("mouseup", handleGlobalMouseUp);
+            document.body.style.userSelect = "";
+        };
+    }, [tagEdgeDrag, moveTagEdge]);
 
     const handleFileSelect = useCallback(
         async (event: React.ChangeEvent<HTMLInputElement>) => {
             const file = event.target.files?.[0];
+            // Allow picking the same file again after a cancel or error
+            event.target.value = "";
             if (!file) return;
 
-            if (!file.name.toLowerCase().endsWith(".wav")) {
-                alert("Please select a .wav file");
-                return;
-            }
-
             dispatch({ type: "FILE_LOAD_START" });
+            // Hashed while the file decodes, the session lookup then needn't wait for both in turn
+            const fingerprint = getFileFingerprint(file);
+            // startSession reports its failure, unless the decode fails first and it never runs
+            fingerprint.catch(() => {});
             try {
-                const data = await parseWavFile(file);
+                const data = await audioDecoder.decode(file, (progress) => {
+                    dispatch({ type: "FILE_LOAD_PROGRESS", payload: progress });
+                });
 
+                // Before the new file's state lands, so it isn't autosaved under the previous file
+                sessions.startSession(file, fingerprint);
                 // Initialize audio for playback (will be done when play is clicked)
                 dispatch({ type: "FILE_LOAD_SUCCESS", payload: { audioData: data, fileName: file.name } });
             } catch (error) {
-                console.error("Error parsing WAV file:", error);
-                alert(`Error loading WAV file: ${error instanceof Error ? error.message : "Unknown error"}`);
+                if (isDecodeCancelled(error)) {
+                    dispatch({ type: "FILE_LOAD_CANCEL" });
+                    return;
+                }
+                console.error("Error decoding audio file:", error);
+                alert(`Error loading audio file: ${error instanceof Error ? error.message : "Unknown error"}`);
                 dispatch({ type: "FILE_LOAD_ERROR" });
             }
         },
-        [dispatch]
+        [dispatch, audioDecoder, sessions.startSession]
     );
 
+    const handleCancelLoad = () => {
+        audioDecoder.cancel();
+    };
+
+    const handleSaveWithMarkers = () => {
+        if (!audioData) return;
+        const markers = tags.map((tag, index) => ({ start: tag.start, end: tag.end, label: getTagLabel(tag, index), note: tag.notes }));
+        downloadBlob(writeWavWithMarkers(audioData, markers), replaceExtension(fileName, "_markers.wav"));
+    };
+
+    const handleTagFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = "";
+        if (!file) return;
+        try {
+            setTagImport({ fileName: file.name, text: await file.text() });
+        } catch (error) {
+            console.error("Error reading tag file:", error);
+            alert(`Error reading tag file: ${error instanceof Error ? error.message : "Unknown error"}`);
+        }
+    };
+
     const handleButtonClick = () => {
         fileInputRef.current?.click();
     };
@@ -471,140 +766,264 @@ export function WaveformViewer() {
             <Card className="shrink-0 max-w-full overflow-hidden">
                 <CardHeader className="pb-3">
                     <CardTitle>Waveform Viewer</CardTitle>
-                    <CardDescription>Upload a .wav file to visualize its waveform in Audacity-style</CardDescription>
+                    <CardDescription>Upload an audio file (WAV, MP3, FLAC, Ogg/Opus, AAC/M4A) to visualize its waveform in Audacity-style</CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                    <div className="flex items-center gap-4">
+                    <div className="flex flex-wrap items-center gap-4">
                         <Button onClick={handleButtonClick} disabled={loading}>
-                            {loading ? "Loading..." : "Open WAV File"}
+                            {loading ? (loadProgress ? `Loading... ${Math.floor((loadProgress.bytesRead / Math.max(1, loadProgress.totalBytes)) * 100)}%` : "Loading...") : "Open Audio File"}
                         </Button>
-                        <input ref={fileInputRef} type="file" accept=".wav" onChange={handleFileSelect} className="hidden" />
+                        {loading && (
+                            <>
+                                {loadProgress && (
+                                    <span className="font-mono text-muted-foreground text-sm">
+                                        {formatBytes(loadProgress.bytesRead)} / {formatBytes(loadProgress.totalBytes)}
+                                    </span>
+                                )}
+                                <Button variant="outline" onClick={handleCancelLoad}>
+                                    <X className="size-4" />
+                                    Cancel
+                                </Button>
+                            </>
+                        )}
+                        <input ref={fileInputRef} type="file" accept={AUDIO_FILE_ACCEPT} onChange={handleFileSelect} className="hidden" />
                         {fileName && <span className="text-sm text-muted-foreground">{fileName}</span>}
+                        {audioData && !loading && (
+                            <Button variant="outline" onClick={() => tagFileInputRef.current?.click()} className="gap-2">
+                                <FileUp className="size-4" />
+                                Import tags
+                            </Button>
+                        )}
+                        <input ref={tagFileInputRef} type="file" accept={TAG_IMPORT_ACCEPT} onChange={handleTagFileSelect} className="hidden" />
+                        <RecentSessions
+                            sessions={sessions.recentSessions}
+                            currentKey={sessions.sessionKey}
+                            onOpen={(session) => {
+                                if (session.key === sessions.sessionKey) {
+                                    dispatch({ type: "RESTORE_SESSION", payload: session });
+                                    return;
+                                }
+                                sessions.requestSession(session.key);
+                                fileInputRef.current?.click();
+                            }}
+                            onDelete={sessions.removeSession}
+                        />
                     </div>
 
+                    {sessions.restoreOffer && <SessionRestorePrompt offer={sessions.restoreOffer} onRestore={sessions.acceptRestore} onDismiss={sessions.declineRestore} />}
+
                     {audioData && (
                         <>
-                            <div className="flex items-center gap-4">
-                                <Button onClick={handlePlayPause} disabled={!audioData} size="lg">
-                                    {isPlaying ? <Pause className="size-4" /> : <Play className="size-4" />}
-                                    {isPlaying ? "Reset & Pause" : "Reset & Play"}
-                                </Button>
+                            <div className="flex flex-wrap items-center gap-4">
+                                <TransportControls
+                                    transport={state.transport}
+                                    unavailableReason={playbackUnavailable}
+                                    hasTags={tags.length > 0}
+                                    followPlayhead={state.followPlayhead}
+                                    scrubAudio={state.scrubAudio}
+                                    onPlayPause={handlePlayPause}
+                                    onStop={handleStop}
+                                    onSkipTag={(direction) => dispatch({ type: "SKIP_TAG", payload: { direction } })}
+                                    onFollowPlayheadChange={(follow) => dispatch({ type: "SET_FOLLOW_PLAYHEAD", payload: { follow } })}
+                                    onScrubAudioChange={(enabled) => dispatch({ type: "SET_SCRUB_AUDIO", payload: { enabled } })}
+                                />
                                 <div className="text-sm font-mono">
-                                    <span>{formatTime(currentTime)}</span>
-                                    {audioData && <span className="text-muted-foreground"> / {formatTime(audioData.duration)}</span>}
+                                    <span>{displayTime(currentTime)}</span>
+                                    {audioData && <span className="text-muted-foreground"> / {displayTime(audioData.duration)}</span>}
+                                </div>
+                                <TimeFormatSelect timeFormat={state.timeFormat} onTimeFormatChange={(value) => dispatch({ type: "SET_TIME_FORMAT", payload: { timeFormat: value } })} />
+                                <PlaybackRateControls
+                                    rate={state.playbackRate}
+                                    preservePitch={state.preservePitch}
+                                    pitchShiftAvailable={pitchShiftAvailable}
+                                    onRateChange={(rate) => dispatch({ type: "SET_PLAYBACK_RATE", payload: { rate } })}
+                                    onPreservePitchChange={(preservePitch) => dispatch({ type: "SET_PRESERVE_PITCH", payload: { preservePitch } })}
+                                />
+                                {startPosition > 0 && <div className="text-sm text-muted-foreground">Start: {displayTime(startPosition)}</div>}
+                                <LoopControls
+                                    range={loopRange}
+                                    enabled={state.loopEnabled}
+                                    preRoll={state.loopPreRoll}
+                                    postRoll={state.loopPostRoll}
+                                    formatTime={displayTime}
+                                    onEnabledChange={(enabled) => dispatch({ type: "SET_LOOP_ENABLED", payload: { enabled } })}
+                                    onSetPoint={(point) => dispatch({ type: "SET_LOOP_POINT", payload: { point, time: currentTime } })}
+                                    onClear={() => dispatch({ type: "CLEAR_LOOP" })}
+                                    onPaddingChange={(padding) => dispatch({ type: "SET_LOOP_PADDING", payload: padding })}
+                                />
+                                <ChannelDisplayControls
+                                    channels={audioData.channels}
+                                    channelView={channelView}
+                                    downmix={downmix}
+                                    onChannelViewChange={(value) => dispatch({ type: "SET_CHANNEL_VIEW", payload: { channelView: value } })}
+                                    onDownmixChange={(value) => dispatch({ type: "SET_DOWNMIX", payload: { downmix: value } })}
+                                />
+                                <div className="flex items-center gap-1">
+                                    <Button variant="outline" size="icon-sm" onClick={() => dispatch({ type: "UNDO" })} disabled={!history.canUndo} title="Undo (Ctrl + Z)">
+                                        <Undo2 className="size-4" />
+                                    </Button>
+                                    <Button variant="outline" size="icon-sm" onClick={() => dispatch({ type: "REDO" })} disabled={!history.canRedo} title="Redo (Ctrl + Shift + Z)">
+                                        <Redo2 className="size-4" />
+                                    </Button>
                                 </div>
-                                {startPosition > 0 && <div className="text-sm text-muted-foreground">Start: {formatTime(startPosition)}</div>}
+                                <div className="flex items-center gap-1">
+                                    <Button variant="outline" size="icon-sm" onClick={() => dispatch({ type: "ZOOM", payload: { factor: 1 / ZOOM_STEP, anchorX: viewportWidth / 2 } })} title="Zoom out (Ctrl + wheel)">
+                                        <ZoomOut className="size-4" />
+                                    </Button>
+                                    <Button variant="outline" size="icon-sm" onClick={() => dispatch({ type: "ZOOM", payload: { factor: ZOOM_STEP, anchorX: viewportWidth / 2 } })} title="Zoom in (Ctrl + wheel)">
+                                        <ZoomIn className="size-4" />
+                                    </Button>
+                                    <Button variant="outline" size="sm" onClick={() => dispatch({ type: "ZOOM_TO_FIT" })}>
+                                        <Scan className="size-4" />
+                                        Fit
+                                    </Button>
+                                </div>
+                                <AmplitudeControls
+                                    amplitudeScale={state.amplitudeScale}
+                                    amplitudeZoom={state.amplitudeZoom}
+                                    laneHeight={laneHeight}
+                                    onAmplitudeScaleChange={(value) => dispatch({ type: "SET_AMPLITUDE_SCALE", payload: { amplitudeScale: value } })}
+                                    onAmplitudeZoomChange={(value) => dispatch({ type: "SET_AMPLITUDE_ZOOM", payload: { amplitudeZoom: value } })}
+                                    onLaneHeightChange={(value) => dispatch({ type: "SET_LANE_HEIGHT", payload: { laneHeight: value } })}
+                                />
+                                <SpectrogramControls
+                                    available={canRead}
+                                    displayMode={displayMode}
+                                    settings={spectrogram}
+                                    onDisplayModeChange={(value) => dispatch({ type: "SET_DISPLAY_MODE", payload: { displayMode: value } })}
+                                    onSettingsChange={(value) => dispatch({ type: "SET_SPECTROGRAM_SETTINGS", payload: value })}
+                                />
                             </div>
                             <div className="flex gap-4 text-sm text-muted-foreground flex-wrap">
                                 <span>Sample Rate: {audioData.sampleRate.toLocaleString()} Hz</span>
                                 <span>Channels: {audioData.channels}</span>
+                                <span>Format: {audioData.sourceFormat === "WAV" ? `${audioData.format.validBitsPerSample}-bit ${audioData.format.encoding.toUpperCase()}` : `${audioData.sourceFormat} (decoded)`}</span>
                                 <span>
                                     Duration: {audioData.duration.toFixed(2)}s ({(audioData.duration / 60).toFixed(2)} min)
                                 </span>
-                                <span>Samples: {audioData.samples.length.toLocaleString()}</span>
-                                <span>
-                                    Scale: {MINUTES_BASE} min = {screenWidth}px
-                                </span>
+                                <span>Samples: {audioData.frameCount.toLocaleString()}</span>
+                                <span>Scale: {formatZoomLevel(pixelsPerSecond, audioData.sampleRate)}</span>
                             </div>
+                            <MetadataPanel audioData={audioData} />
                         </>
                     )}
                 </CardContent>
             </Card>
 
             {audioData && (
-                <div ref={containerRef} className="w-full min-w-0 flex-1 overflow-x-auto overflow-y-hidden" style={{ maxWidth: "100%", width: "100%", paddingTop: "16px", paddingBottom: "0", paddingLeft: "0", paddingRight: "0", boxSizing: "border-box" }}>
-                    <div className="overflow-hidden rounded-lg border" style={{ height: "256px", display: "inline-block", maxWidth: "none", marginLeft: "16px", marginRight: "16px" }}>
-                        <canvas
-                            ref={canvasRef}
-                            className="block cursor-pointer"
-                            style={{ height: "256px" }}
-                            onMouseDown={handleCanvasMouseDown}
-                            onMouseMove={handleCanvasMouseMove}
-                            onMouseUp={handleCanvasMouseUp}
-                            onMouseLeave={handleCanvasMouseLeave}
-                            onTouchStart={handleCanvasTouchStart}
-                            onTouchMove={handleCanvasTouchMove}
-                            onTouchEnd={handleCanvasTouchEnd}
-                            title="Click to set playback start position, drag playhead to scrub"
+                <div ref={containerRef} className="w-full min-w-0 flex-1 overflow-y-auto overflow-x-hidden" style={{ maxWidth: "100%", width: "100%", paddingTop: "16px", paddingBottom: "0", paddingLeft: "0", paddingRight: "0", boxSizing: "border-box" }}>
+                    <div className="mb-2" style={{ marginLeft: "16px", marginRight: "16px" }}>
+                        <WaveformOverview
+                            peaks={overviewPeaks ?? audioData.mixPeaks.average}
+                            frameCount={audioData.frameCount}
+                            duration={audioData.duration}
+                            width={viewportWidth}
+                            viewStart={scrollLeft / pixelsPerSecond}
+                            viewEnd={Math.min(audioData.duration, (scrollLeft + viewportWidth) / pixelsPerSecond)}
+                            currentTime={currentTime}
+                            tags={tags}
+                            categories={tagCategories}
+                            onNavigate={(startTime) => dispatch({ type: "SCROLL", payload: { scrollLeft: startTime * pixelsPerSecond } })}
                         />
                     </div>
+                    <div ref={viewportRef} className="overflow-hidden rounded-lg border" style={{ marginLeft: "16px", marginRight: "16px" }}>
+                        <canvas ref={rulerCanvasRef} className="block border-b" />
+                        <div className="relative" style={{ height: `${canvasHeight}px` }}>
+                            {/* Waveform tiles, then overlay layers covering the viewport; only the top one takes pointer input */}
+                            <CanvasTiles contentWidth={contentWidth} height={canvasHeight} viewport={viewport} drawTile={drawWaveformTile} />
+                            <canvas ref={markersCanvasRef} className="pointer-events-none absolute top-0 left-0" />
+                            <canvas
+                                ref={playheadCanvasRef}
+                                className="absolute top-0 left-0 block cursor-pointer"
+                                onMouseDown={handleCanvasMouseDown}
+                                onMouseMove={handleCanvasMouseMove}
+                                onMouseUp={handleCanvasMouseUp}
+                                onMouseLeave={handleCanvasMouseLeave}
+                                onTouchStart={handleCanvasTouchStart}
+                                onTouchMove={handleCanvasTouchMove}
+                                onTouchEnd={handleCanvasTouchEnd}
+                                title="Click to set playback start position, drag playhead to scrub, Ctrl + wheel to zoom"
+                            />
+                        </div>
+                    </div>
+                    <div style={{ marginLeft: "16px", marginRight: "16px" }}>
+                        <TimelineScrollbar contentWidth={contentWidth} viewportWidth={viewportWidth} scrollLeft={scrollLeft} onScroll={(value) => dispatch({ type: "SCROLL", payload: { scrollLeft: value } })} />
+                    </div>
                 </div>
             )}
 
             {!audioData && !loading && (
                 <div className="flex flex-1 items-center justify-center bg-background">
                     <div className="rounded-lg border-2 border-dashed p-12 text-center text-muted-foreground">
-                        <p>No file loaded. Click "Open WAV File" to get started.</p>
+                        <p>No file loaded. Click "Open Audio File" to get started.</p>
                     </div>
                 </div>
             )}
 
             {/* Tags list section */}
             {(tags.length > 0 || pendingTagStart !== null) && (
-                <div className="max-h-64 shrink-0 overflow-y-auto border-border border-t bg-card p-4">
+                <div className="max-h-80 shrink-0 overflow-y-auto border-border border-t bg-card p-4">
                     <div className="container mx-auto">
                         <div className="mb-3 flex items-center justify-between">
                             <h3 className="font-semibold text-card-foreground text-sm">Tags {pendingTagStart !== null && <span className="text-muted-foreground text-xs">(Press A again to set end)</span>}</h3>
-                            {tags.length > 0 && (
-                                <Button
-                                    variant="outline"
-                                    size="sm"
-                                    onClick={async () => {
-                                        try {
-                                            // Format each value to 4 decimal places
-                                            const formattedTags = tags.map(([start, end]) => [Math.round(start * 10000) / 10000, Math.round(end * 10000) / 10000]);
-                                            const json = JSON.stringify(formattedTags, null, 2);
-                                            await navigator.clipboard.writeText(json);
-                                            // You could add a toast notification here if you have one
-                                        } catch (error) {
-                                            console.error("Failed to copy:", error);
-                                            alert("Failed to copy to clipboard");
-                                        }
-                                    }}
-                                    className="gap-2"
-                                >
-                                    <Copy className="size-4" />
-                                    Copy JSON
-                                </Button>
-                            )}
-                        </div>
-                        <div className="space-y-2">
-                            {tags.map((tag, index) => (
-                                <div key={index} className="flex items-center justify-between rounded-md border border-border bg-background p-2">
-                                    <div className="flex items-center gap-4 text-sm">
-                                        <span className="font-mono text-card-foreground">
-                                            {formatTime(tag[0])} - {formatTime(tag[1])}
-                                        </span>
-                                        <span className="text-muted-foreground text-xs">({formatTime(tag[1] - tag[0])})</span>
-                                    </div>
-                                    <Button
-                                        variant="ghost"
-                                        size="sm"
-                                        onClick={() => {
-                                            dispatch({ type: "REMOVE_TAG", payload: { index } });
-                                        }}
-                                        className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
-                                    >
-                                        ×
-                                    </Button>
-                                </div>
-                            ))}
-                            {pendingTagStart !== null && (
-                                <div className="flex items-center justify-between rounded-md border border-primary/30 bg-primary/10 p-2">
-                                    <div className="flex items-center gap-4 text-sm">
-                                        <span className="font-mono text-card-foreground">{formatTime(pendingTagStart)} - ...</span>
-                                        <span className="text-primary text-xs">(Pending end time)</span>
-                                    </div>
-                                    <Button variant="ghost" size="sm" onClick={() => dispatch({ type: "CLEAR_PENDING_TAG" })} className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive">
-                                        ×
+                            <div className="flex flex-wrap justify-end gap-2">
+                                {tags.length > 0 && <TagExportControls tags={tags} categories={tagCategories} fileName={fileName} />}
+                                {tags.length > 0 && audioData?.sourceFormat === "WAV" && (
+                                    <Button variant="outline" size="sm" onClick={handleSaveWithMarkers} className="gap-2">
+                                        <Save className="size-4" />
+                                        Save WAV with markers
                                     </Button>
-                                </div>
-                            )}
+                                )}
+                            </div>
                         </div>
+                        <div className="mb-3">
+                            <TagCategoryEditor
+                                categories={tagCategories}
+                                onAdd={(category) => dispatch({ type: "ADD_TAG_CATEGORY", payload: category })}
+                                onUpdate={(id, changes) => dispatch({ type: "UPDATE_TAG_CATEGORY", payload: { id, changes } })}
+                                onDelete={(id) => dispatch({ type: "DELETE_TAG_CATEGORY", payload: { id } })}
+                            />
+                        </div>
+                        <TagList
+                            tags={tags}
+                            categories={tagCategories}
+                            selectedTag={selectedTag}
+                            pendingTagStart={pendingTagStart}
+                            loopTagId={state.loopEnabled ? (state.loop?.tagId ?? null) : null}
+                            formatTime={displayTime}
+                            onSelect={(id) => dispatch({ type: "SELECT_TAG", payload: { id } })}
+                            onUpdate={(id, changes) => dispatch({ type: "UPDATE_TAG", payload: { id, changes } })}
+                            onDelete={(id) => dispatch({ type: "DELETE_TAG", payload: { id } })}
+                            onZoom={(tag) => dispatch({ type: "ZOOM_TO_RANGE", payload: { start: tag.start, end: tag.end } })}
+                            onLoop={(tag) => {
+                                if (state.loopEnabled && state.loop?.tagId === tag.id) {
+                                    dispatch({ type: "SET_LOOP_ENABLED", payload: { enabled: false } });
+                                    return;
+                                }
+                                dispatch({ type: "SET_LOOP", payload: { start: tag.start, end: tag.end, tagId: tag.id } });
+                                if (!isPlaying && !playbackUnavailable) dispatch({ type: "PLAY" });
+                            }}
+                            onClearPending={() => dispatch({ type: "CLEAR_PENDING_TAG" })}
+                        />
                     </div>
                 </div>
             )}
 
+            {tagImport && audioData && (
+                <TagImportDialog
+                    fileName={tagImport.fileName}
+                    text={tagImport.text}
+                    existingTags={tags}
+                    duration={audioData.duration}
+                    formatTime={displayTime}
+                    onImport={(imported) => {
+                        dispatch({ type: "IMPORT_TAGS", payload: { tags: imported } });
+                        setTagImport(null);
+                    }}
+                    onCancel={() => setTagImport(null)}
+                />
+            )}
+
             <footer className="shrink-0 rounded-md p-2 bg-card text-card-foreground">
                 <div className="flex flex-col items-center gap-2 mx-auto">
                     <div className="text-center">
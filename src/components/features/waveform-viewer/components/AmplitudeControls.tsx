@@ -0,0 +1,60 @@
+import { Minus, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { AmplitudeScale } from "../types";
+import { AMPLITUDE_ZOOM_STEP, LANE_HEIGHTS, MAX_AMPLITUDE_ZOOM } from "../utils/amplitude";
+
+interface AmplitudeControlsProps {
+    amplitudeScale: AmplitudeScale;
+    amplitudeZoom: number;
+    laneHeight: number;
+    onAmplitudeScaleChange: (amplitudeScale: AmplitudeScale) => void;
+    onAmplitudeZoomChange: (amplitudeZoom: number) => void;
+    onLaneHeightChange: (laneHeight: number) => void;
+}
+
+export function AmplitudeControls({ amplitudeScale, amplitudeZoom, laneHeight, onAmplitudeScaleChange, onAmplitudeZoomChange, onLaneHeightChange }: AmplitudeControlsProps) {
+    // Gain in dB reads better than a multiplier on the dB scale
+    const zoomLabel = amplitudeScale === "db" ? `+${Math.round(20 * Math.log10(amplitudeZoom))} dB` : `×${amplitudeZoom}`;
+
+    return (
+        <div className="flex items-center gap-2">
+            <Label htmlFor="amplitude-scale" className="text-muted-foreground">
+                Amplitude
+            </Label>
+            <Select value={amplitudeScale} onValueChange={(value) => onAmplitudeScaleChange(value as AmplitudeScale)}>
+                <SelectTrigger size="sm" id="amplitude-scale">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent align="start">
+                    <SelectItem value="linear">Linear</SelectItem>
+                    <SelectItem value="db">dB</SelectItem>
+                </SelectContent>
+            </Select>
+            <div className="flex items-center gap-1">
+                <Button variant="outline" size="icon-sm" onClick={() => onAmplitudeZoomChange(amplitudeZoom / AMPLITUDE_ZOOM_STEP)} disabled={amplitudeZoom <= 1} title="Vertical zoom out">
+                    <Minus className="size-4" />
+                </Button>
+                <button type="button" className="w-14 text-center font-mono text-muted-foreground text-sm" onClick={() => onAmplitudeZoomChange(1)} title="Reset vertical zoom">
+                    {zoomLabel}
+                </button>
+                <Button variant="outline" size="icon-sm" onClick={() => onAmplitudeZoomChange(amplitudeZoom * AMPLITUDE_ZOOM_STEP)} disabled={amplitudeZoom >= MAX_AMPLITUDE_ZOOM} title="Vertical zoom in">
+                    <Plus className="size-4" />
+                </Button>
+            </div>
+            <Select value={String(laneHeight)} onValueChange={(value) => onLaneHeightChange(Number(value))}>
+                <SelectTrigger size="sm" aria-label="Lane height">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent align="start">
+                    {LANE_HEIGHTS.map((height) => (
+                        <SelectItem key={height} value={String(height)}>
+                            {height} px
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+        </div>
+    );
+}
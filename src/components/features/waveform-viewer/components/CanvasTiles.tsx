@@ -0,0 +1,55 @@
+import { memo, useEffect, useRef } from "react";
+import { type PixelRange, prepareCanvas } from "../utils/canvas";
+
+// CSS pixels per tile, a few tiles cover the viewport on any screen
+const TILE_WIDTH = 1024;
+// Tiles kept painted on each side of the viewport so short scrolls don't show gaps
+const OVERSCAN_TILES = 1;
+
+// Draws the given content range at the canvas origin
+export type DrawTile = (ctx: CanvasRenderingContext2D, tile: PixelRange) => void;
+
+interface CanvasTileProps {
+    start: number;
+    left: number;
+    width: number;
+    height: number;
+    drawTile: DrawTile;
+}
+
+// Memoized so a tile only repaints when its range or the draw function changes, not on every scroll or parent render
+const CanvasTile = memo(function CanvasTile({ start, left, width, height, drawTile }: CanvasTileProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const ctx = prepareCanvas(canvas, width, height);
+        if (!ctx) return;
+        drawTile(ctx, { start, end: start + width });
+    }, [start, width, height, drawTile]);
+
+    return <canvas ref={canvasRef} className="absolute top-0 block" style={{ left: `${left}px` }} />;
+});
+
+interface CanvasTilesProps {
+    contentWidth: number;
+    height: number;
+    viewport: PixelRange;
+    drawTile: DrawTile;
+}
+
+// Only the tiles around the viewport exist, so no single canvas runs into the browser's maximum canvas size.
+// The viewport is in content pixels, tiles are positioned relative to it.
+export function CanvasTiles({ contentWidth, height, viewport, drawTile }: CanvasTilesProps) {
+    const tileCount = Math.ceil(contentWidth / TILE_WIDTH);
+    const first = Math.max(0, Math.floor(viewport.start / TILE_WIDTH) - OVERSCAN_TILES);
+    const last = Math.min(tileCount, Math.ceil(viewport.end / TILE_WIDTH) + OVERSCAN_TILES);
+
+    const tiles = [];
+    for (let index = first; index < last; index++) {
+        const start = index * TILE_WIDTH;
+        tiles.push(<CanvasTile key={index} start={start} left={start - viewport.start} width={Math.min(TILE_WIDTH, contentWidth - start)} height={height} drawTile={drawTile} />);
+    }
+    return <>{tiles}</>;
+}
@@ -0,0 +1,56 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ChannelView, DownmixMode } from "../types";
+
+interface ChannelDisplayControlsProps {
+    channels: number;
+    channelView: ChannelView;
+    downmix: DownmixMode;
+    onChannelViewChange: (channelView: ChannelView) => void;
+    onDownmixChange: (downmix: DownmixMode) => void;
+}
+
+const DOWNMIX_OPTIONS: Array<{ value: DownmixMode; label: string }> = [
+    { value: "average", label: "Average" },
+    { value: "left", label: "Left only" },
+    { value: "right", label: "Right only" },
+    { value: "mid", label: "Mid (L+R)" },
+    { value: "side", label: "Side (L−R)" },
+];
+
+export function ChannelDisplayControls({ channels, channelView, downmix, onChannelViewChange, onDownmixChange }: ChannelDisplayControlsProps) {
+    if (channels < 2) {
+        return null;
+    }
+
+    return (
+        <div className="flex items-center gap-2">
+            <Label htmlFor="channel-view" className="text-muted-foreground">
+                View
+            </Label>
+            <Select value={channelView} onValueChange={(value) => onChannelViewChange(value as ChannelView)}>
+                <SelectTrigger size="sm" id="channel-view">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent align="start">
+                    <SelectItem value="mixed">Mixed</SelectItem>
+                    <SelectItem value="lanes">Channel lanes</SelectItem>
+                </SelectContent>
+            </Select>
+            {channelView === "mixed" && (
+                <Select value={downmix} onValueChange={(value) => onDownmixChange(value as DownmixMode)}>
+                    <SelectTrigger size="sm" aria-label="Downmix">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent align="start">
+                        {DOWNMIX_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            )}
+        </div>
+    );
+}
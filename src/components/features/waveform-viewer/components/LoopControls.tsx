@@ -0,0 +1,61 @@
+import { Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LOOP_PADDINGS } from "../utils/loop";
+
+interface LoopControlsProps {
+    range: { start: number; end: number } | null; // Without padding
+    enabled: boolean;
+    preRoll: number;
+    postRoll: number;
+    formatTime: (seconds: number) => string;
+    onEnabledChange: (enabled: boolean) => void;
+    onSetPoint: (point: "start" | "end") => void; // At the playhead
+    onClear: () => void;
+    onPaddingChange: (padding: { preRoll?: number; postRoll?: number }) => void;
+}
+
+export function LoopControls({ range, enabled, preRoll, postRoll, formatTime, onEnabledChange, onSetPoint, onClear, onPaddingChange }: LoopControlsProps) {
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <Button variant={enabled ? "default" : "outline"} size="sm" onClick={() => onEnabledChange(!enabled)} disabled={!range} className="gap-2" title="Loop playback (L)">
+                <Repeat className="size-4" />
+                Loop
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => onSetPoint("start")} title="Set loop start at the playhead ([)">
+                A
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => onSetPoint("end")} title="Set loop end at the playhead (])">
+                B
+            </Button>
+            {range && (
+                <>
+                    <span className="font-mono text-muted-foreground text-sm">
+                        {formatTime(range.start)} - {formatTime(range.end)}
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={onClear} className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive" title="Clear loop">
+                        ×
+                    </Button>
+                </>
+            )}
+            {[
+                { key: "preRoll" as const, label: "Pre-roll", value: preRoll },
+                { key: "postRoll" as const, label: "Post-roll", value: postRoll },
+            ].map(({ key, label, value }) => (
+                <Select key={key} value={String(value)} onValueChange={(next) => onPaddingChange({ [key]: Number(next) })}>
+                    <SelectTrigger size="sm" aria-label={label}>
+                        <span className="text-muted-foreground">{label}</span>
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent align="start">
+                        {LOOP_PADDINGS.map((padding) => (
+                            <SelectItem key={padding} value={String(padding)}>
+                                {padding} s
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,96 @@
+import type { AudioData } from "../types";
+import { formatClockTime } from "../utils/time";
+import { INFO_LABELS } from "../utils/wavMetadata";
+
+interface MetadataPanelProps {
+    audioData: AudioData;
+}
+
+interface MetadataField {
+    label: string;
+    value: string;
+}
+
+function collectFields({ metadata, sampleRate }: AudioData): Array<{ title: string; fields: MetadataField[] }> {
+    const sections: Array<{ title: string; fields: MetadataField[] }> = [];
+    const { bext, ixml, info } = metadata;
+
+    if (bext) {
+        const loudness: MetadataField[] = [
+            { label: "Integrated loudness", value: bext.loudnessValue !== null ? `${bext.loudnessValue.toFixed(2)} LUFS` : "" },
+            { label: "Loudness range", value: bext.loudnessRange !== null ? `${bext.loudnessRange.toFixed(2)} LU` : "" },
+            { label: "True peak", value: bext.maxTruePeakLevel !== null ? `${bext.maxTruePeakLevel.toFixed(2)} dBTP` : "" },
+        ];
+        sections.push({
+            title: "Broadcast (bext)",
+            fields: [
+                { label: "Description", value: bext.description },
+                { label: "Originator", value: bext.originator },
+                { label: "Reference", value: bext.originatorReference },
+                { label: "Origination", value: `${bext.originationDate} ${bext.originationTime}`.trim() },
+                { label: "Time reference", value: bext.timeReference > 0 ? `${formatClockTime(bext.timeReference / sampleRate)} (${bext.timeReference.toLocaleString()} samples)` : "" },
+                { label: "UMID", value: bext.umid },
+                ...loudness,
+                { label: "Coding history", value: bext.codingHistory },
+            ],
+        });
+    }
+
+    if (ixml) {
+        sections.push({
+            title: "Production (iXML)",
+            fields: [
+                { label: "Project", value: ixml.project },
+                { label: "Scene", value: ixml.scene },
+                { label: "Take", value: ixml.circled ? `${ixml.take} (circled)` : ixml.take },
+                { label: "Tape", value: ixml.tape },
+                { label: "Note", value: ixml.note },
+                { label: "Tracks", value: ixml.trackNames.filter(Boolean).join(", ") },
+            ],
+        });
+    }
+
+    if (info.length > 0) {
+        sections.push({
+            title: "Info (LIST/INFO)",
+            fields: info.map(({ id, value }) => ({ label: INFO_LABELS[id] ?? id, value })),
+        });
+    }
+
+    return sections.map((section) => ({ ...section, fields: section.fields.filter((field) => field.value !== "") })).filter((section) => section.fields.length > 0);
+}
+
+export function MetadataPanel({ audioData }: MetadataPanelProps) {
+    const sections = collectFields(audioData);
+    const { cuePoints } = audioData.metadata;
+
+    if (sections.length === 0 && cuePoints.length === 0) {
+        return null;
+    }
+
+    const fieldCount = sections.reduce((count, section) => count + section.fields.length, 0);
+
+    return (
+        <details className="text-muted-foreground text-sm">
+            <summary className="cursor-pointer select-none">
+                Metadata ({fieldCount} {fieldCount === 1 ? "field" : "fields"}
+                {cuePoints.length > 0 && `, ${cuePoints.length} ${cuePoints.length === 1 ? "marker" : "markers"}`})
+            </summary>
+            <div className="mt-2 grid gap-4 md:grid-cols-3">
+                {sections.map((section) => (
+                    <div key={section.title}>
+                        <h4 className="mb-1 font-semibold text-card-foreground">{section.title}</h4>
+                        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+                            {section.fields.map((field) => (
+                                <div key={field.label} className="contents">
+                                    <dt>{field.label}</dt>
+                                    <dd className="whitespace-pre-wrap break-words text-card-foreground">{field.value}</dd>
+                                </div>
+                            ))}
+                        </dl>
+                    </div>
+                ))}
+            </div>
+        </details>
+    );
+}
@@ -0,0 +1,35 @@
+import { Gauge } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PLAYBACK_RATES } from "../utils/timeStretch";
+
+interface PlaybackRateControlsProps {
+    rate: number;
+    preservePitch: boolean;
+    pitchShiftAvailable: boolean;
+    onRateChange: (rate: number) => void;
+    onPreservePitchChange: (preservePitch: boolean) => void;
+}
+
+export function PlaybackRateControls({ rate, preservePitch, pitchShiftAvailable, onRateChange, onPreservePitchChange }: PlaybackRateControlsProps) {
+    return (
+        <div className="flex items-center gap-2">
+            <Select value={String(rate)} onValueChange={(value) => onRateChange(Number(value))}>
+                <SelectTrigger size="sm" aria-label="Playback speed">
+                    <Gauge className="size-4" />
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent align="start">
+                    {PLAYBACK_RATES.map((value) => (
+                        <SelectItem key={value} value={String(value)}>
+                            {value}×
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            <label className={`flex items-center gap-2 text-sm ${pitchShiftAvailable ? "" : "text-muted-foreground"}`} title={pitchShiftAvailable ? "Time-stretch instead of changing the pitch with the speed" : "This browser can't run the time-stretch, the pitch changes with the speed"}>
+                <input type="checkbox" checked={preservePitch && pitchShiftAvailable} disabled={!pitchShiftAvailable} onChange={(event) => onPreservePitchChange(event.target.checked)} />
+                Keep pitch
+            </label>
+        </div>
+    );
+}
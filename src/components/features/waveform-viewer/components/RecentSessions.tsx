@@ -0,0 +1,67 @@
+import { History } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { SavedSession } from "../types";
+import { formatBytes } from "../utils/format";
+
+interface RecentSessionsProps {
+    sessions: SavedSession[];
+    currentKey: string | null;
+    onOpen: (session: SavedSession) => void;
+    onDelete: (key: string) => void;
+}
+
+// Saved sessions, most recent first. Sessions don't hold the audio, opening one asks for its file.
+export function RecentSessions({ sessions, currentKey, onOpen, onDelete }: RecentSessionsProps) {
+    const [open, setOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Close on clicks outside the list
+    useEffect(() => {
+        if (!open) return;
+        const handlePointerDown = (event: PointerEvent) => {
+            if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+        };
+        document.addEventListener("pointerdown", handlePointerDown);
+        return () => document.removeEventListener("pointerdown", handlePointerDown);
+    }, [open]);
+
+    if (sessions.length === 0) return null;
+
+    return (
+        <div ref={containerRef} className="relative">
+            <Button variant="outline" onClick={() => setOpen(!open)} className="gap-2" aria-expanded={open}>
+                <History className="size-4" />
+                Recent sessions
+            </Button>
+            {open && (
+                <div className="absolute top-full left-0 z-40 mt-1 w-96 max-w-[calc(100vw-2rem)] space-y-1 rounded-md border bg-popover p-1 text-popover-foreground shadow-md">
+                    {sessions.map((session) => (
+                        <div key={session.key} className="flex items-center gap-2 rounded-sm hover:bg-accent">
+                            <button
+                                type="button"
+                                className="min-w-0 flex-1 px-2 py-1.5 text-left"
+                                onClick={() => {
+                                    setOpen(false);
+                                    onOpen(session);
+                                }}
+                                title={session.key === currentKey ? "Restore this session" : "Open the file to restore this session"}
+                            >
+                                <div className="truncate text-sm">
+                                    {session.fileName}
+                                    {session.key === currentKey && <span className="text-muted-foreground text-xs"> (open)</span>}
+                                </div>
+                                <div className="text-muted-foreground text-xs">
+                                    {session.tags.length} tags · {formatBytes(session.fileSize)} · {new Date(session.savedAt).toLocaleString()}
+                                </div>
+                            </button>
+                            <Button variant="ghost" size="sm" onClick={() => onDelete(session.key)} className="h-6 w-6 shrink-0 p-0 text-muted-foreground hover:text-destructive" title="Delete session">
+                                ×
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
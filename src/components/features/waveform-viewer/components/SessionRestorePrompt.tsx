@@ -0,0 +1,30 @@
+import { Button } from "@/components/ui/button";
+import type { RestoreOffer } from "../hooks/useSessionStore";
+
+interface SessionRestorePromptProps {
+    offer: RestoreOffer;
+    onRestore: () => void;
+    onDismiss: () => void;
+}
+
+// Modal, tags can't be edited until the user decides, so nothing done meanwhile goes unsaved
+export function SessionRestorePrompt({ offer: { session, matchesFile }, onRestore, onDismiss }: SessionRestorePromptProps) {
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+            <div role="dialog" aria-modal="true" aria-labelledby="session-restore-title" className="flex w-full max-w-md flex-col gap-4 rounded-lg border bg-card p-4 text-card-foreground shadow-lg">
+                <h2 id="session-restore-title" className="font-semibold text-lg">
+                    Restore session?
+                </h2>
+                <p className="text-sm">
+                    {matchesFile ? "This file has a saved session" : `The session for "${session.fileName}" was saved for a different file`} from {new Date(session.savedAt).toLocaleString()} with {session.tags.length} tags.
+                </p>
+                <div className="flex justify-end gap-2">
+                    <Button variant="ghost" onClick={onDismiss}>
+                        {matchesFile ? "Start fresh" : "Dismiss"}
+                    </Button>
+                    <Button onClick={onRestore}>{matchesFile ? "Restore" : "Apply anyway"}</Button>
+                </div>
+            </div>
+        </div>
+    );
+}
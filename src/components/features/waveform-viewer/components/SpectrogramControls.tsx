@@ -0,0 +1,98 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ColorMap, DisplayMode, FrequencyScale, SpectrogramSettings, WindowFunction } from "../types";
+import { COLOR_MAPS, FFT_SIZES, FREQUENCY_SCALES, OVERLAPS, WINDOW_FUNCTIONS } from "../utils/spectrogram";
+
+interface SpectrogramControlsProps {
+    available: boolean; // Spectrograms read frames from the file, like sample-level zoom
+    displayMode: DisplayMode;
+    settings: SpectrogramSettings;
+    onDisplayModeChange: (displayMode: DisplayMode) => void;
+    onSettingsChange: (settings: Partial<SpectrogramSettings>) => void;
+}
+
+export function SpectrogramControls({ available, displayMode, settings, onDisplayModeChange, onSettingsChange }: SpectrogramControlsProps) {
+    const mode = available ? displayMode : "waveform";
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <Label htmlFor="display-mode" className="text-muted-foreground">
+                Display
+            </Label>
+            <Select value={mode} onValueChange={(value) => onDisplayModeChange(value as DisplayMode)} disabled={!available}>
+                <SelectTrigger size="sm" id="display-mode" title={available ? undefined : "Spectrograms are available for WAV files"}>
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent align="start">
+                    <SelectItem value="waveform">Waveform</SelectItem>
+                    <SelectItem value="spectrogram">Spectrogram</SelectItem>
+                    <SelectItem value="both">Waveform + spectrogram</SelectItem>
+                </SelectContent>
+            </Select>
+            {mode !== "waveform" && (
+                <>
+                    <Select value={String(settings.fftSize)} onValueChange={(value) => onSettingsChange({ fftSize: Number(value) })}>
+                        <SelectTrigger size="sm" aria-label="FFT size">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent align="start">
+                            {FFT_SIZES.map((size) => (
+                                <SelectItem key={size} value={String(size)}>
+                                    FFT {size}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select value={settings.windowFunction} onValueChange={(value) => onSettingsChange({ windowFunction: value as WindowFunction })}>
+                        <SelectTrigger size="sm" aria-label="Window function">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent align="start">
+                            {WINDOW_FUNCTIONS.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select value={String(settings.overlap)} onValueChange={(value) => onSettingsChange({ overlap: Number(value) })}>
+                        <SelectTrigger size="sm" aria-label="Overlap">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent align="start">
+                            {OVERLAPS.map((overlap) => (
+                                <SelectItem key={overlap} value={String(overlap)}>
+                                    {overlap * 100}% overlap
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select value={settings.frequencyScale} onValueChange={(value) => onSettingsChange({ frequencyScale: value as FrequencyScale })}>
+                        <SelectTrigger size="sm" aria-label="Frequency scale">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent align="start">
+                            {FREQUENCY_SCALES.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Select value={settings.colorMap} onValueChange={(value) => onSettingsChange({ colorMap: value as ColorMap })}>
+                        <SelectTrigger size="sm" aria-label="Colour map">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent align="start">
+                            {COLOR_MAPS.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </>
+            )}
+        </div>
+    );
+}
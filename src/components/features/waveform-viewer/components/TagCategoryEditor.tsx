@@ -0,0 +1,57 @@
+import { Plus } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { TagCategory } from "../types";
+import { getNewCategoryColor } from "../utils/tags";
+
+interface TagCategoryEditorProps {
+    categories: TagCategory[];
+    onAdd: (category: { name: string; color: string }) => void;
+    onUpdate: (id: string, changes: Partial<Omit<TagCategory, "id">>) => void;
+    onDelete: (id: string) => void;
+}
+
+// The category palette as colour chips, expanded into an editor on demand
+export function TagCategoryEditor({ categories, onAdd, onUpdate, onDelete }: TagCategoryEditorProps) {
+    const [editing, setEditing] = useState(false);
+
+    if (!editing) {
+        return (
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+                {categories.map((category) => (
+                    <span key={category.id} className="flex items-center gap-1 text-muted-foreground">
+                        <span className="size-2.5 rounded-full" style={{ backgroundColor: category.color }} />
+                        {category.name}
+                    </span>
+                ))}
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setEditing(true)}>
+                    Edit categories
+                </Button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-2">
+            {categories.map((category) => (
+                <div key={category.id} className="flex items-center gap-2">
+                    <input type="color" className="h-7 w-9 shrink-0 cursor-pointer rounded border bg-transparent" value={category.color} onChange={(event) => onUpdate(category.id, { color: event.target.value })} aria-label={`${category.name} colour`} />
+                    <Input className="h-7 max-w-64" value={category.name} onChange={(event) => onUpdate(category.id, { name: event.target.value })} aria-label="Category name" />
+                    <Button variant="ghost" size="sm" onClick={() => onDelete(category.id)} className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive" title="Delete category">
+                        ×
+                    </Button>
+                </div>
+            ))}
+            <div className="flex gap-2">
+                <Button variant="outline" size="sm" className="gap-2" onClick={() => onAdd({ name: `Category ${categories.length + 1}`, color: getNewCategoryColor(categories.length) })}>
+                    <Plus className="size-4" />
+                    Add category
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setEditing(false)}>
+                    Done
+                </Button>
+            </div>
+        </div>
+    );
+}
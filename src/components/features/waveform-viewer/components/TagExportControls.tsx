@@ -0,0 +1,104 @@
+import { Copy, Download } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Tag, TagCategory, TimeFormat } from "../types";
+import { downloadBlob, replaceExtension } from "../utils/download";
+import { DEFAULT_TAG_EXPORT_OPTIONS, EXPORT_PRECISIONS, exportTags, TAG_EXPORT_FORMATS, type TagExportFormat, type TagExportOptions } from "../utils/tagExport";
+import { getFrameRate, TIME_FORMATS } from "../utils/time";
+
+// EDLs count in frames, so only the SMPTE formats apply
+const FRAME_RATES = TIME_FORMATS.filter((format) => getFrameRate(format.value) !== null);
+
+interface TagExportControlsProps {
+    tags: Tag[];
+    categories: TagCategory[];
+    fileName: string;
+}
+
+// Format picker with that format's options, copying or downloading the result
+export function TagExportControls({ tags, categories, fileName }: TagExportControlsProps) {
+    const [format, setFormat] = useState<TagExportFormat>("json");
+    const [options, setOptions] = useState<TagExportOptions>(DEFAULT_TAG_EXPORT_OPTIONS);
+    const formatInfo = TAG_EXPORT_FORMATS.find((option) => option.value === format) ?? TAG_EXPORT_FORMATS[0];
+    const shown = new Set(formatInfo?.options);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(exportTags(format, tags, categories, options, fileName));
+        } catch (error) {
+            console.error("Failed to copy:", error);
+            alert("Failed to copy to clipboard");
+        }
+    };
+
+    const handleDownload = () => {
+        if (!formatInfo) return;
+        const text = exportTags(format, tags, categories, options, fileName);
+        downloadBlob(new Blob([text], { type: formatInfo.mimeType }), replaceExtension(fileName, formatInfo.suffix));
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <Select value={format} onValueChange={(value) => setFormat(value as TagExportFormat)}>
+                <SelectTrigger size="sm" aria-label="Export format">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent align="end">
+                    {TAG_EXPORT_FORMATS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            {shown.has("precision") && (
+                <Select value={String(options.precision)} onValueChange={(value) => setOptions({ ...options, precision: Number(value) })}>
+                    <SelectTrigger size="sm" aria-label="Time precision">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent align="end">
+                        {EXPORT_PRECISIONS.map((precision) => (
+                            <SelectItem key={precision} value={String(precision)}>
+                                {precision} decimals
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            )}
+            {shown.has("frameRate") && (
+                <Select value={options.frameRate} onValueChange={(value) => setOptions({ ...options, frameRate: value as TimeFormat })}>
+                    <SelectTrigger size="sm" aria-label="Frame rate">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent align="end">
+                        {FRAME_RATES.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            )}
+            {shown.has("reaperKind") && (
+                <Select value={options.reaperKind} onValueChange={(value) => setOptions({ ...options, reaperKind: value as TagExportOptions["reaperKind"] })}>
+                    <SelectTrigger size="sm" aria-label="Reaper item type">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent align="end">
+                        <SelectItem value="regions">Regions</SelectItem>
+                        <SelectItem value="markers">Markers</SelectItem>
+                    </SelectContent>
+                </Select>
+            )}
+            <Button variant="outline" size="sm" onClick={handleCopy} className="gap-2">
+                <Copy className="size-4" />
+                Copy
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleDownload} className="gap-2">
+                <Download className="size-4" />
+                Download
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,192 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Tag } from "../types";
+import { type CsvColumns, type CsvOptions, checkImportedTags, detectImportFormat, getImportableTags, guessCsvOptions, type ImportedTag, parseDelimited, parseTagFile, TAG_IMPORT_FORMATS, type TagImportFormat, type TagImportIssue } from "../utils/tagImport";
+
+// Radix selects can't hold an empty value
+const NO_COLUMN = "none";
+
+const DELIMITERS = [
+    { value: ",", label: "Comma" },
+    { value: ";", label: "Semicolon" },
+    { value: "\t", label: "Tab" },
+];
+
+const CSV_ROLES: Array<{ role: keyof CsvColumns; label: string }> = [
+    { role: "start", label: "Start" },
+    { role: "end", label: "End" },
+    { role: "label", label: "Label" },
+    { role: "category", label: "Category" },
+    { role: "notes", label: "Notes" },
+];
+
+const ISSUE_LABELS: Record<TagImportIssue, string> = {
+    duplicate: "Duplicate",
+    overlap: "Overlaps",
+    "out-of-range": "Out of range",
+};
+
+interface TagImportDialogProps {
+    fileName: string;
+    text: string;
+    existingTags: Tag[];
+    duration: number;
+    formatTime: (seconds: number) => string;
+    onImport: (tags: ImportedTag[]) => void;
+    onCancel: () => void;
+}
+
+// Preview of the tags a file holds and how they fit the current ones, before merging them
+export function TagImportDialog({ fileName, text, existingTags, duration, formatTime, onImport, onCancel }: TagImportDialogProps) {
+    const [format, setFormat] = useState<TagImportFormat>(() => detectImportFormat(fileName, text));
+    const [csvOptions, setCsvOptions] = useState<CsvOptions>(() => guessCsvOptions(text));
+    const [skipDuplicates, setSkipDuplicates] = useState(true);
+
+    const result = useMemo(() => parseTagFile(format, text, duration, csvOptions), [format, text, duration, csvOptions]);
+    const checked = useMemo(() => checkImportedTags(result.tags, existingTags, duration, skipDuplicates), [result.tags, existingTags, duration, skipDuplicates]);
+    const importable = useMemo(() => getImportableTags(checked, duration), [checked, duration]);
+
+    // Column choices named after the header row when there is one
+    const columnNames = useMemo(() => {
+        if (format !== "csv") return [];
+        const rows = parseDelimited(text, csvOptions.delimiter).slice(0, 20);
+        const count = Math.max(0, ...rows.map((row) => row.length));
+        return Array.from({ length: count }, (_, index) => `${index + 1}${csvOptions.hasHeader && rows[0]?.[index] ? ` · ${rows[0][index]}` : ""}`);
+    }, [format, text, csvOptions.delimiter, csvOptions.hasHeader]);
+
+    const setColumn = (role: keyof CsvColumns, value: string) => {
+        const column = value === NO_COLUMN ? null : Number(value);
+        setCsvOptions((options) => ({ ...options, columns: { ...options.columns, [role]: role === "start" ? (column ?? 0) : column } }));
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+            <div role="dialog" aria-modal="true" aria-labelledby="tag-import-title" className="flex max-h-full w-full max-w-3xl flex-col gap-4 rounded-lg border bg-card p-4 text-card-foreground shadow-lg">
+                <div>
+                    <h2 id="tag-import-title" className="font-semibold text-lg">
+                        Import tags
+                    </h2>
+                    <p className="text-muted-foreground text-sm">{fileName}</p>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                    <Label htmlFor="tag-import-format" className="text-muted-foreground">
+                        Format
+                    </Label>
+                    <Select value={format} onValueChange={(value) => setFormat(value as TagImportFormat)}>
+                        <SelectTrigger size="sm" id="tag-import-format">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent align="start">
+                            {TAG_IMPORT_FORMATS.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <label className="ml-auto flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={skipDuplicates} onChange={(event) => setSkipDuplicates(event.target.checked)} />
+                        Skip duplicates
+                    </label>
+                </div>
+
+                {format === "csv" && (
+                    <div className="flex flex-wrap items-center gap-2">
+                        <Select value={csvOptions.delimiter} onValueChange={(value) => setCsvOptions((options) => ({ ...options, delimiter: value }))}>
+                            <SelectTrigger size="sm" aria-label="Delimiter">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent align="start">
+                                {DELIMITERS.map((option) => (
+                                    <SelectItem key={option.label} value={option.value}>
+                                        {option.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <label className="flex items-center gap-2 text-sm">
+                            <input type="checkbox" checked={csvOptions.hasHeader} onChange={(event) => setCsvOptions((options) => ({ ...options, hasHeader: event.target.checked }))} />
+                            Header row
+                        </label>
+                        {CSV_ROLES.map(({ role, label }) => (
+                            <Select key={role} value={csvOptions.columns[role] === null ? NO_COLUMN : String(csvOptions.columns[role])} onValueChange={(value) => setColumn(role, value)}>
+                                <SelectTrigger size="sm" aria-label={`${label} column`}>
+                                    <span className="text-muted-foreground">{label}:</span>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent align="start">
+                                    {role !== "start" && <SelectItem value={NO_COLUMN}>None</SelectItem>}
+                                    {columnNames.map((name, index) => (
+                                        <SelectItem key={name} value={String(index)}>
+                                            {name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        ))}
+                    </div>
+                )}
+
+                <div className="min-h-24 flex-1 overflow-auto rounded-md border">
+                    <table className="w-full text-sm">
+                        <thead className="sticky top-0 bg-card text-left text-muted-foreground text-xs">
+                            <tr>
+                                <th className="p-2 font-medium">Start</th>
+                                <th className="p-2 font-medium">End</th>
+                                <th className="p-2 font-medium">Label</th>
+                                <th className="p-2 font-medium">Category</th>
+                                <th className="p-2 font-medium">Status</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {checked.map(({ tag, issues, skipped }, index) => (
+                                // biome-ignore lint/suspicious/noArrayIndexKey: imported tags have no ID yet
+                                <tr key={index} className={`border-t ${skipped ? "text-muted-foreground line-through" : ""}`}>
+                                    <td className="p-2 font-mono">{formatTime(tag.start)}</td>
+                                    <td className="p-2 font-mono">{formatTime(tag.end)}</td>
+                                    <td className="max-w-64 truncate p-2">{tag.label}</td>
+                                    <td className="p-2">{tag.category}</td>
+                                    <td className="p-2 text-xs">
+                                        {issues.length === 0 ? <span className="text-muted-foreground">OK</span> : <span className="text-destructive">{issues.map((issue) => ISSUE_LABELS[issue]).join(", ")}</span>}
+                                        {skipped && <span className="text-muted-foreground"> · skipped</span>}
+                                    </td>
+                                </tr>
+                            ))}
+                            {checked.length === 0 && (
+                                <tr>
+                                    <td colSpan={5} className="p-4 text-center text-muted-foreground">
+                                        No tags found in this file.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                {result.errors.length > 0 && (
+                    <div className="max-h-24 overflow-auto text-destructive text-xs">
+                        {result.errors.map((error) => (
+                            <div key={error}>{error}</div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground text-sm">
+                        {importable.length} of {checked.length} tags will be added
+                        {checked.some(({ issues }) => issues.includes("out-of-range")) && ", out of range times are clipped to the file"}
+                    </span>
+                    <Button variant="ghost" className="ml-auto" onClick={onCancel}>
+                        Cancel
+                    </Button>
+                    <Button onClick={() => onImport(importable)} disabled={importable.length === 0}>
+                        Import {importable.length}
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+}
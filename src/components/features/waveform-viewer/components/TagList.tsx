@@ -0,0 +1,103 @@
+import { Repeat, ZoomIn } from "lucide-react";
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import type { TagFields } from "../hooks/useWaveformReducer";
+import type { Tag, TagCategory } from "../types";
+import { getTagColor } from "../utils/tags";
+
+// Radix selects can't hold an empty value
+const NO_CATEGORY = "none";
+
+interface TagListProps {
+    tags: Tag[];
+    categories: TagCategory[];
+    selectedTag: string | null;
+    pendingTagStart: number | null;
+    loopTagId: string | null; // Tag being looped, if any
+    formatTime: (seconds: number) => string;
+    onSelect: (id: string) => void;
+    onUpdate: (id: string, changes: Partial<TagFields>) => void;
+    onDelete: (id: string) => void;
+    onZoom: (tag: Tag) => void;
+    onLoop: (tag: Tag) => void;
+    onClearPending: () => void;
+}
+
+export function TagList({ tags, categories, selectedTag, pendingTagStart, loopTagId, formatTime, onSelect, onUpdate, onDelete, onZoom, onLoop, onClearPending }: TagListProps) {
+    const listRef = useRef<HTMLDivElement>(null);
+
+    // Keep the selected tag in sight, e.g. after clicking its region on the canvas
+    useEffect(() => {
+        if (selectedTag === null) return;
+        listRef.current?.querySelector(`[data-tag-id="${selectedTag}"]`)?.scrollIntoView({ block: "nearest" });
+    }, [selectedTag]);
+
+    return (
+        <div ref={listRef} className="space-y-2">
+            {tags.map((tag, index) => {
+                const selected = tag.id === selectedTag;
+                return (
+                    <div key={tag.id} data-tag-id={tag.id} className={`space-y-2 rounded-md border bg-background p-2 ${selected ? "border-primary" : "border-border"}`}>
+                        <div className="flex items-center gap-2">
+                            <span className="size-3 shrink-0 rounded-full" style={{ backgroundColor: getTagColor(tag, categories, "var(--chart-2)") }} />
+                            <button type="button" className="flex shrink-0 items-center gap-2 text-left text-sm" onClick={() => onSelect(tag.id)} title="Select tag">
+                                <span className="font-mono text-card-foreground">
+                                    {formatTime(tag.start)} - {formatTime(tag.end)}
+                                </span>
+                                <span className="text-muted-foreground text-xs">({formatTime(tag.end - tag.start)})</span>
+                            </button>
+                            <Input className="h-7 min-w-24 flex-1" value={tag.label} placeholder={`Tag ${index + 1}`} onChange={(event) => onUpdate(tag.id, { label: event.target.value })} onFocus={() => onSelect(tag.id)} aria-label="Tag label" />
+                            <Select value={tag.categoryId ?? NO_CATEGORY} onValueChange={(value) => onUpdate(tag.id, { categoryId: value === NO_CATEGORY ? null : value })}>
+                                <SelectTrigger size="sm" aria-label="Tag category">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent align="start">
+                                    <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+                                    {categories.map((category) => (
+                                        <SelectItem key={category.id} value={category.id}>
+                                            {category.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <Button variant="ghost" size="sm" onClick={() => onLoop(tag)} className={`h-6 w-6 p-0 ${tag.id === loopTagId ? "text-primary" : "text-muted-foreground"}`} title={tag.id === loopTagId ? "Stop looping" : "Loop tag"}>
+                                <Repeat className="size-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => onZoom(tag)} className="h-6 w-6 p-0 text-muted-foreground" title="Zoom to tag">
+                                <ZoomIn className="size-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => onDelete(tag.id)} className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive" title="Delete tag">
+                                ×
+                            </Button>
+                        </div>
+                        {/* Notes open up for the selected tag, the others show a one-line preview */}
+                        {selected ? (
+                            <>
+                                <Textarea className="min-h-12" value={tag.notes} placeholder="Notes" onChange={(event) => onUpdate(tag.id, { notes: event.target.value })} aria-label="Tag notes" />
+                                <div className="text-muted-foreground text-xs">
+                                    Created {new Date(tag.createdAt).toLocaleString()} · Modified {new Date(tag.modifiedAt).toLocaleString()}
+                                </div>
+                            </>
+                        ) : (
+                            tag.notes && <div className="truncate text-muted-foreground text-xs">{tag.notes}</div>
+                        )}
+                    </div>
+                );
+            })}
+            {pendingTagStart !== null && (
+                <div className="flex items-center justify-between rounded-md border border-primary/30 bg-primary/10 p-2">
+                    <div className="flex items-center gap-4 text-sm">
+                        <span className="font-mono text-card-foreground">{formatTime(pendingTagStart)} - ...</span>
+                        <span className="text-primary text-xs">(Pending end time)</span>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={onClearPending} className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive">
+                        ×
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,25 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TimeFormat } from "../types";
+import { TIME_FORMATS } from "../utils/time";
+
+interface TimeFormatSelectProps {
+    timeFormat: TimeFormat;
+    onTimeFormatChange: (timeFormat: TimeFormat) => void;
+}
+
+export function TimeFormatSelect({ timeFormat, onTimeFormatChange }: TimeFormatSelectProps) {
+    return (
+        <Select value={timeFormat} onValueChange={(value) => onTimeFormatChange(value as TimeFormat)}>
+            <SelectTrigger size="sm" aria-label="Time format">
+                <SelectValue />
+            </SelectTrigger>
+            <SelectContent align="start">
+                {TIME_FORMATS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                    </SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+}
@@ -0,0 +1,40 @@
+import { useEffect, useRef } from "react";
+
+// Browsers cap element widths at a few million pixels, a deeply zoomed timeline maps proportionally onto a capped track
+const MAX_TRACK_WIDTH = 4_000_000;
+
+interface TimelineScrollbarProps {
+    contentWidth: number;
+    viewportWidth: number;
+    scrollLeft: number;
+    onScroll: (scrollLeft: number) => void;
+}
+
+export function TimelineScrollbar({ contentWidth, viewportWidth, scrollLeft, onScroll }: TimelineScrollbarProps) {
+    const scrollerRef = useRef<HTMLDivElement>(null);
+    const trackWidth = Math.min(contentWidth, MAX_TRACK_WIDTH);
+    const contentRange = Math.max(0, contentWidth - viewportWidth);
+    const trackRange = Math.max(0, trackWidth - viewportWidth);
+    const trackPerContent = contentRange > 0 ? trackRange / contentRange : 0;
+
+    // Follow zoom and scroll changes made elsewhere
+    useEffect(() => {
+        const scroller = scrollerRef.current;
+        if (scroller && Math.abs(scroller.scrollLeft - scrollLeft * trackPerContent) >= 1) {
+            scroller.scrollLeft = scrollLeft * trackPerContent;
+        }
+    }, [scrollLeft, trackPerContent]);
+
+    const handleScroll = () => {
+        const scroller = scrollerRef.current;
+        // Ignore the echo of a position we set ourselves
+        if (!scroller || trackPerContent === 0 || Math.abs(scroller.scrollLeft - scrollLeft * trackPerContent) < 1) return;
+        onScroll(scroller.scrollLeft / trackPerContent);
+    };
+
+    return (
+        <div ref={scrollerRef} className="overflow-x-auto overflow-y-hidden" onScroll={handleScroll}>
+            <div className="h-px" style={{ width: `${trackWidth}px` }} />
+        </div>
+    );
+}
@@ -0,0 +1,44 @@
+import { AudioLines, Crosshair, Pause, Play, SkipBack, SkipForward, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { TransportState } from "../types";
+
+interface TransportControlsProps {
+    transport: TransportState;
+    unavailableReason: string | null; // Shown instead of letting Play fail
+    hasTags: boolean;
+    followPlayhead: boolean;
+    scrubAudio: boolean;
+    onPlayPause: () => void;
+    onStop: () => void;
+    onSkipTag: (direction: "next" | "previous") => void;
+    onFollowPlayheadChange: (follow: boolean) => void;
+    onScrubAudioChange: (enabled: boolean) => void;
+}
+
+export function TransportControls({ transport, unavailableReason, hasTags, followPlayhead, scrubAudio, onPlayPause, onStop, onSkipTag, onFollowPlayheadChange, onScrubAudioChange }: TransportControlsProps) {
+    const isPlaying = transport === "playing";
+    return (
+        <div className="flex items-center gap-1">
+            <Button variant="outline" size="icon-sm" onClick={() => onSkipTag("previous")} disabled={!hasTags} title="Previous tag (←)">
+                <SkipBack className="size-4" />
+            </Button>
+            <Button onClick={onPlayPause} disabled={!isPlaying && unavailableReason !== null} size="lg" title={isPlaying ? "Pause (Space)" : "Play (Space)"}>
+                {isPlaying ? <Pause className="size-4" /> : <Play className="size-4" />}
+                {isPlaying ? "Pause" : transport === "paused" ? "Resume" : "Play"}
+            </Button>
+            <Button variant="outline" size="icon-sm" onClick={onStop} title="Stop and return to the start marker (Home)">
+                <Square className="size-4" />
+            </Button>
+            <Button variant="outline" size="icon-sm" onClick={() => onSkipTag("next")} disabled={!hasTags} title="Next tag (→)">
+                <SkipForward className="size-4" />
+            </Button>
+            <Button variant={followPlayhead ? "default" : "outline"} size="icon-sm" onClick={() => onFollowPlayheadChange(!followPlayhead)} title="Follow the playhead (F)">
+                <Crosshair className="size-4" />
+            </Button>
+            <Button variant={scrubAudio ? "default" : "outline"} size="icon-sm" onClick={() => onScrubAudioChange(!scrubAudio)} title="Hear the audio while dragging the playhead">
+                <AudioLines className="size-4" />
+            </Button>
+            {unavailableReason && <span className="ml-1 text-destructive text-sm">{unavailableReason}</span>}
+        </div>
+    );
+}
@@ -0,0 +1,112 @@
+import type React from "react";
+import { useEffect, useRef } from "react";
+import type { Tag, TagCategory, WaveformPeaks } from "../types";
+import { drawPeaksLane, getThemeColor, prepareCanvas } from "../utils/canvas";
+import { getTagColor } from "../utils/tags";
+
+const OVERVIEW_HEIGHT = 48;
+// Height of the tag ticks along the top edge
+const TAG_TICK_HEIGHT = 6;
+
+interface WaveformOverviewProps {
+    peaks: WaveformPeaks;
+    frameCount: number;
+    duration: number;
+    width: number;
+    viewStart: number; // Visible range of the main view, in seconds
+    viewEnd: number;
+    currentTime: number;
+    tags: Tag[];
+    categories: TagCategory[];
+    onNavigate: (startTime: number) => void; // Scroll the main view so it starts at startTime
+}
+
+// The whole file at a fixed width: waveform, the part the main view shows, the playhead and tags
+export function WaveformOverview({ peaks, frameCount, duration, width, viewStart, viewEnd, currentTime, tags, categories, onNavigate }: WaveformOverviewProps) {
+    const waveformCanvasRef = useRef<HTMLCanvasElement>(null);
+    const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+    // Where in the view rectangle the drag grabbed it, in seconds from its start
+    const dragOffsetRef = useRef<number | null>(null);
+
+    // Static layer, only repainted when the file, mix or width changes
+    useEffect(() => {
+        const canvas = waveformCanvasRef.current;
+        if (!canvas) return;
+        const ctx = prepareCanvas(canvas, width, OVERVIEW_HEIGHT);
+        if (!ctx) return;
+        ctx.fillStyle = getThemeColor("--background", "oklch(0.145 0 0)");
+        ctx.fillRect(0, 0, width, OVERVIEW_HEIGHT);
+        ctx.strokeStyle = getThemeColor("--muted-foreground", "oklch(0.556 0 0)");
+        drawPeaksLane(ctx, peaks, frameCount / width, 0, OVERVIEW_HEIGHT, { start: 0, end: width }, { scale: "linear", zoom: 1 });
+    }, [peaks, frameCount, width]);
+
+    useEffect(() => {
+        const canvas = overlayCanvasRef.current;
+        if (!canvas || duration <= 0) return;
+        const ctx = prepareCanvas(canvas, width, OVERVIEW_HEIGHT);
+        if (!ctx) return;
+        ctx.clearRect(0, 0, width, OVERVIEW_HEIGHT);
+        const toX = (time: number) => (time / duration) * width;
+
+        // Tags as ticks along the top, their extent as a faint band
+        const tagColor = getThemeColor("--chart-2", "oklch(0.6 0.118 184.704)");
+        for (const tag of tags) {
+            const x = Math.round(toX(tag.start));
+            ctx.fillStyle = getTagColor(tag, categories, tagColor);
+            ctx.globalAlpha = 0.25;
+            ctx.fillRect(x, 0, Math.max(1, toX(tag.end) - x), TAG_TICK_HEIGHT);
+            ctx.globalAlpha = 1;
+            ctx.fillRect(x, 0, 2, TAG_TICK_HEIGHT);
+        }
+
+        // Visible part of the main view, at least a few pixels wide so it stays grabbable when zoomed far in
+        const viewX = toX(viewStart);
+        const viewWidth = Math.max(4, toX(viewEnd) - viewX);
+        ctx.fillStyle = getThemeColor("--primary", "oklch(0.205 0 0)");
+        ctx.globalAlpha = 0.12;
+        ctx.fillRect(viewX, 0, viewWidth, OVERVIEW_HEIGHT);
+        ctx.globalAlpha = 1;
+        ctx.strokeStyle = getThemeColor("--primary", "oklch(0.205 0 0)");
+        ctx.lineWidth = 1;
+        ctx.strokeRect(Math.round(viewX) + 0.5, 0.5, Math.round(viewWidth) - 1, OVERVIEW_HEIGHT - 1);
+
+        const playheadX = Math.round(toX(Math.min(currentTime, duration))) + 0.5;
+        ctx.strokeStyle = getThemeColor("--destructive", "oklch(0.577 0.245 27.325)");
+        ctx.beginPath();
+        ctx.moveTo(playheadX, 0);
+        ctx.lineTo(playheadX, OVERVIEW_HEIGHT);
+        ctx.stroke();
+    }, [duration, width, viewStart, viewEnd, currentTime, tags, categories]);
+
+    const getTime = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        return ((event.clientX - rect.left) / rect.width) * duration;
+    };
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        if (event.button !== 0) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        const time = getTime(event);
+        // Grabbing the view rectangle keeps the grab point under the pointer, clicking elsewhere centers the view there
+        const viewSpan = viewEnd - viewStart;
+        dragOffsetRef.current = time >= viewStart && time <= viewEnd ? time - viewStart : viewSpan / 2;
+        onNavigate(time - dragOffsetRef.current);
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        if (dragOffsetRef.current === null) return;
+        onNavigate(getTime(event) - dragOffsetRef.current);
+    };
+
+    const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        dragOffsetRef.current = null;
+        event.currentTarget.releasePointerCapture(event.pointerId);
+    };
+
+    return (
+        <div className="relative overflow-hidden rounded-lg border" style={{ height: `${OVERVIEW_HEIGHT + 2}px` }}>
+            <canvas ref={waveformCanvasRef} className="absolute top-0 left-0 block" />
+            <canvas ref={overlayCanvasRef} className="absolute top-0 left-0 block cursor-pointer touch-none" onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} onPointerCancel={handlePointerUp} title="Click or drag to move the view" />
+        </div>
+    );
+}
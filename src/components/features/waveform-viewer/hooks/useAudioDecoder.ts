@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef } from "react";
+import type { AudioData } from "../types";
+import { findDecoder } from "../utils/decoders";
+import type { ParseProgress } from "../utils/wavParser";
+import { bundleWorker } from "../workers/bundleWorker" with { type: "macro" };
+import { createWorkerUrl } from "../workers/bundleWorker";
+import type { DecoderWorkerRequest, DecoderWorkerResponse } from "../workers/decoder.worker";
+
+const DECODER_WORKER_SOURCE = bundleWorker("./decoder.worker.ts");
+let decoderWorkerUrl: string | null = null;
+
+export interface AudioDecoderService {
+    decode: (file: Blob, onProgress: (progress: ParseProgress) => void) => Promise<AudioData>;
+    cancel: () => void;
+}
+
+export function isDecodeCancelled(error: unknown): boolean {
+    return error instanceof DOMException && error.name === "AbortError";
+}
+
+function runDecoderWorker(request: DecoderWorkerRequest, transfer: Transferable[], signal: AbortSignal, onProgress: (progress: ParseProgress) => void): Promise<AudioData> {
+    return new Promise<AudioData>((resolve, reject) => {
+        signal.throwIfAborted();
+
+        decoderWorkerUrl ??= createWorkerUrl(DECODER_WORKER_SOURCE);
+        const worker = new Worker(decoderWorkerUrl, { type: "module" });
+
+        // Terminating the worker stops parsing immediately, even mid-slice
+        const handleAbort = () => {
+            worker.terminate();
+            reject(signal.reason);
+        };
+        signal.addEventListener("abort", handleAbort, { once: true });
+
+        const finish = () => {
+            worker.terminate();
+            signal.removeEventListener("abort", handleAbort);
+        };
+
+        worker.onmessage = (event: MessageEvent<DecoderWorkerResponse>) => {
+            const message = event.data;
+            if (message.type === "progress") {
+                onProgress(message.progress);
+            } else if (message.type === "done") {
+                finish();
+                resolve(message.audioData);
+            } else {
+                finish();
+                reject(new Error(message.message));
+            }
+        };
+
+        worker.onerror = (event) => {
+            finish();
+            reject(new Error(event.message || "Decoder worker failed"));
+        };
+
+        worker.postMessage(request, transfer);
+    });
+}
+
+export function useAudioDecoder(): AudioDecoderService {
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const cancel = useCallback(() => {
+        controllerRef.current?.abort(new DOMException("Load cancelled", "AbortError"));
+        controllerRef.current = null;
+    }, []);
+
+    const decode = useCallback(
+        async (file: Blob, onProgress: (progress: ParseProgress) => void) => {
+            cancel();
+            const controller = new AbortController();
+            controllerRef.current = controller;
+            const { signal } = controller;
+
+            try {
+                // Pick the decoder from the file's magic bytes, not its extension
+                const match = await findDecoder(file);
+                if (!match) {
+                    throw new Error("Unsupported audio format");
+                }
+                signal.throwIfAborted();
+
+                return await match.decoder.decode(file, match.sourceFormat, {
+                    signal,
+                    onProgress,
+                    runWorker: (request, transfer = []) => runDecoderWorker(request, transfer, signal, onProgress),
+                });
+            } finally {
+                if (controllerRef.current === controller) {
+                    controllerRef.current = null;
+                }
+            }
+        },
+        [cancel]
+    );
+
+    // Stop any running decode on unmount
+    useEffect(() => cancel, [cancel]);
+
+    return { decode, cancel };
+}
@@ -1,16 +1,55 @@
-import { useRef, useCallback, useEffect } from "react";
+import { useCallback, useEffect, useRef } from "react";
 import type { AudioData } from "../types";
+import { formatBytes } from "../utils/format";
+import { getPitchShiftLatency, PITCH_SHIFT_PROCESSOR } from "../utils/timeStretch";
+import { bundleWorker } from "../workers/bundleWorker" with { type: "macro" };
+import { createWorkerUrl } from "../workers/bundleWorker";
+import type { PitchShiftWorkletMessage } from "../workers/pitchShift.worklet";
+
+const PITCH_SHIFT_WORKLET_SOURCE = bundleWorker("./pitchShift.worklet.ts");
+let pitchShiftWorkletUrl: string | null = null;
+// Whether the worklet loads depends on the browser, so one warning covers every file
+let hasWarnedPitchShift = false;
+
+// decodeAudioData takes the whole file as one buffer and returns every sample as 32-bit float, browsers refuse or run
+// out of memory well before the 4 GB and larger files RF64 allows
+const MAX_DECODE_BYTES = 2 * 1024 ** 3;
+
+// Why the file can't be decoded for playback, null when it's worth trying
+export function getPlaybackUnavailableReason(audioData: AudioData): string | null {
+    const decodedBytes = audioData.frameCount * audioData.channels * 4;
+    const bytes = Math.max(audioData.file.size, decodedBytes);
+    if (bytes <= MAX_DECODE_BYTES) return null;
+    return `Too large to play back: decoding needs ${formatBytes(bytes)} at once, the browser manages up to ${formatBytes(MAX_DECODE_BYTES)}`;
+}
+
+// Scrub grains play the audio dragged over since the last move, at the speed it was dragged over
+const SCRUB_MIN_RATE = 0.25;
+const SCRUB_MAX_RATE = 4;
+// Longest pause between moves that still counts as one motion, and the shortest grain
+const SCRUB_MAX_INTERVAL = 0.1;
+const SCRUB_MIN_INTERVAL = 0.01;
+// Fade at each end of a grain, consecutive grains overlap by it
+const SCRUB_FADE = 0.005;
+// Grains queued further ahead than this are dropped so the sound keeps up with the mouse
+const SCRUB_MAX_LAG = 0.15;
 
 export interface AudioServiceCallbacks {
     onTimeUpdate: (time: number) => void;
     onEnded: () => void;
+    onPitchShiftAvailabilityChange: (available: boolean) => void; // Known once a file is decoded
 }
 
 export interface AudioService {
-    initialize: (arrayBuffer: ArrayBuffer) => Promise<void>;
+    initialize: (file: Blob) => Promise<void>;
     play: (audioData: AudioData, startTime: number) => void;
     pause: () => void;
+    setLoop: (bounds: { start: number; end: number } | null) => void; // Repeat this range, null plays through to the end
+    setPlaybackRate: (rate: number, preservePitch: boolean) => void; // Applies to the running source too
     seek: (time: number) => void;
+    startScrub: (file: Blob) => void; // Decodes the file if playback hasn't yet
+    scrub: (time: number) => void; // Playhead moved while scrubbing
+    stopScrub: () => void;
     cleanup: () => void;
 }
 
@@ -25,35 +64,105 @@ export function useAudioService(isPlaying: boolean, isDragging: boolean, callbac
     const isInitializedRef = useRef<boolean>(false);
     const isPlayingRef = useRef<boolean>(false);
     const isDraggingRef = useRef<boolean>(false);
-
-    const initialize = useCallback(async (arrayBuffer: ArrayBuffer) => {
-        try {
-            // Always reinitialize to ensure we have the latest buffer
-            if (audioContextRef.current && audioContextRef.current.state !== "closed") {
-                // Stop any playing source
-                if (sourceNodeRef.current) {
-                    try {
-                        sourceNodeRef.current.stop();
-                    } catch (_e) {
-                        // Ignore
+    const loopRef = useRef<{ start: number; end: number } | null>(null);
+    const playbackRateRef = useRef<number>(1);
+    const preservePitchRef = useRef<boolean>(true);
+    const pitchShiftNodeRef = useRef<AudioWorkletNode | null>(null);
+    // Whether the running source goes through the pitch shifter
+    const isPitchShiftingRef = useRef<boolean>(false);
+    // Where the running source was started from, the heard position never goes back past it
+    const playStartRef = useRef<number>(0);
+    const fileRef = useRef<Blob | null>(null); // File the buffer was decoded from
+    const decodingRef = useRef<{ file: Blob; promise: Promise<void> } | null>(null);
+    const isScrubbingRef = useRef<boolean>(false);
+    // Last scrub position and when it was reached, in seconds of performance.now()
+    const lastScrubRef = useRef<{ time: number; at: number } | null>(null);
+    const scrubEndRef = useRef<number>(0); // Context time the queued grains run until
+    const scrubGrainsRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+
+    const decode = useCallback(
+        async (file: Blob) => {
+            try {
+                // A new file replaces the context along with its buffer
+                if (audioContextRef.current && audioContextRef.current.state !== "closed") {
+                    // Stop any playing source
+                    if (sourceNodeRef.current) {
+                        try {
+                            sourceNodeRef.current.stop();
+                        } catch (_e) {
+                            // Ignore
+                        }
+                        sourceNodeRef.current = null;
                     }
-                    sourceNodeRef.current = null;
+                    await audioContextRef.current.close();
+                }
+
+                // biome-ignore lint/suspicious/noExplicitAny: < >
+                const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+                const audioBuffer = await audioContext.decodeAudioData(await file.arrayBuffer());
+
+                audioContextRef.current = audioContext;
+                audioBufferRef.current = audioBuffer;
+                fileRef.current = file;
+                pitchShiftNodeRef.current = null;
+
+                // Without the worklet, speed changes still work but shift the pitch along
+                try {
+                    pitchShiftWorkletUrl ??= createWorkerUrl(PITCH_SHIFT_WORKLET_SOURCE);
+                    await audioContext.audioWorklet.addModule(pitchShiftWorkletUrl);
+                    const pitchShiftNode = new AudioWorkletNode(audioContext, PITCH_SHIFT_PROCESSOR, {
+                        outputChannelCount: [audioBuffer.numberOfChannels],
+                        channelCount: audioBuffer.numberOfChannels,
+                        channelCountMode: "explicit",
+                    });
+                    pitchShiftNode.connect(audioContext.destination);
+                    pitchShiftNodeRef.current = pitchShiftNode;
+                } catch (error) {
+                    if (!hasWarnedPitchShift) console.warn("Pitch-preserving playback is unavailable:", error);
+                    hasWarnedPitchShift = true;
                 }
-                await audioContextRef.current.close();
+                callbacks.onPitchShiftAvailabilityChange(pitchShiftNodeRef.current !== null);
+                isInitializedRef.current = true;
+            } catch (error) {
+                console.error("Failed to initialize audio:", error);
+                isInitializedRef.current = false;
+                throw new Error("Failed to initialize audio playback");
             }
+        },
+        [callbacks]
+    );
 
-            // biome-ignore lint/suspicious/noExplicitAny: < >
-            const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-            const audioBuffer = await audioContext.decodeAudioData(arrayBuffer.slice(0));
+    // Decodes once per file, playing again or from elsewhere in it only needs a new source node
+    const initialize = useCallback(
+        async (file: Blob) => {
+            const audioContext = audioContextRef.current;
+            if (fileRef.current === file && audioContext && audioContext.state !== "closed") {
+                // Dragging and clicking are user gestures, a context the browser started suspended can run now
+                if (audioContext.state === "suspended") await audioContext.resume();
+                return;
+            }
+            if (decodingRef.current?.file !== file) {
+                const promise = decode(file).finally(() => {
+                    if (decodingRef.current?.promise === promise) decodingRef.current = null;
+                });
+                decodingRef.current = { file, promise };
+            }
+            return decodingRef.current.promise;
+        },
+        [decode]
+    );
 
-            audioContextRef.current = audioContext;
-            audioBufferRef.current = audioBuffer;
-            isInitializedRef.current = true;
-        } catch (error) {
-            console.error("Failed to initialize audio:", error);
-            isInitializedRef.current = false;
-            throw new Error("Failed to initialize audio playback");
+    // Position in the file: pausedAtRef is where the source was at startTimeRef, it moves playbackRate seconds per second and
+    // looping wraps everything past the loop end. What's heard lags behind the source by the pitch shifter's latency.
+    const getPlaybackTime = useCallback((audioContext: AudioContext, heard = true) => {
+        const rate = playbackRateRef.current;
+        const delay = heard && isPitchShiftingRef.current ? (getPitchShiftLatency(audioContext.sampleRate, 1 / rate) / audioContext.sampleRate) * rate : 0;
+        const time = Math.max(playStartRef.current, pausedAtRef.current + (audioContext.currentTime - startTimeRef.current) * rate - delay);
+        const loop = loopRef.current;
+        if (loop && pausedAtRef.current < loop.end && time >= loop.end) {
+            return loop.start + ((time - loop.start) % (loop.end - loop.start));
         }
+        return time;
     }, []);
 
     const startPlayheadUpdate = useCallback(() => {
@@ -77,10 +186,7 @@ export function useAudioService(isPlaying: boolean, isDragging: boolean, callbac
                 return;
             }
 
-            const audioContext = audioContextRef.current;
-            const sessionElapsed = audioContext.currentTime - startTimeRef.current;
-            const totalTime = pausedAtRef.current + sessionElapsed;
-            const newTime = Math.min(totalTime, currentAudioDataRef.current.duration);
+            const newTime = Math.min(getPlaybackTime(audioContextRef.current), currentAudioDataRef.current.duration);
 
             callbacks.onTimeUpdate(newTime);
 
@@ -95,7 +201,7 @@ export function useAudioService(isPlaying: boolean, isDragging: boolean, callbac
 
         // Start the animation loop
         animationFrameRef.current = requestAnimationFrame(updatePlayhead);
-    }, [callbacks]);
+    }, [callbacks, getPlaybackTime]);
 
     const play = useCallback(
         (audioData: AudioData, startTime: number) => {
@@ -122,15 +228,31 @@ export function useAudioService(isPlaying: boolean, isDragging: boolean, callbac
             const audioContext = audioContextRef.current;
             const source = audioContext.createBufferSource();
             source.buffer = audioBufferRef.current;
-            source.connect(audioContext.destination);
+            source.playbackRate.value = playbackRateRef.current;
+            const pitchShiftNode = pitchShiftNodeRef.current;
+            isPitchShiftingRef.current = pitchShiftNode !== null && preservePitchRef.current && playbackRateRef.current !== 1;
+            if (pitchShiftNode && isPitchShiftingRef.current) {
+                pitchShiftNode.port.postMessage({ pitch: 1 / playbackRateRef.current } satisfies PitchShiftWorkletMessage);
+                source.connect(pitchShiftNode);
+            } else {
+                source.connect(audioContext.destination);
+            }
 
-            const startOffset = Math.max(0, startTime);
+            // Playing from outside the loop starts at its beginning
+            const loop = loopRef.current;
+            const startOffset = loop && (startTime < loop.start || startTime >= loop.end) ? loop.start : Math.max(0, startTime);
             const remainingDuration = audioData.duration - startOffset;
+            if (loop) {
+                source.loop = true;
+                source.loopStart = loop.start;
+                source.loopEnd = loop.end;
+            }
 
             if (remainingDuration > 0) {
                 // Set refs BEFORE starting playback
                 currentAudioDataRef.current = audioData;
-                pausedAtRef.current = startTime;
+                pausedAtRef.current = startOffset;
+                playStartRef.current = startOffset;
 
                 source.start(0, startOffset);
                 startTimeRef.current = audioContext.currentTime;
@@ -161,9 +283,7 @@ export function useAudioService(isPlaying: boolean, isDragging: boolean, callbac
 
     const pause = useCallback(() => {
         if (sourceNodeRef.current && audioContextRef.current) {
-            const audioContext = audioContextRef.current;
-            const sessionElapsed = audioContext.currentTime - startTimeRef.current;
-            const newPausedTime = pausedAtRef.current + sessionElapsed;
+            const newPausedTime = getPlaybackTime(audioContextRef.current);
             pausedAtRef.current = newPausedTime;
 
             // Update the current time to the paused position before stopping
@@ -180,7 +300,141 @@ export function useAudioService(isPlaying: boolean, isDragging: boolean, callbac
             cancelAnimationFrame(animationFrameRef.current);
             animationFrameRef.current = null;
         }
-    }, [callbacks]);
+    }, [callbacks, getPlaybackTime]);
+
+    const setLoop = useCallback(
+        (bounds: { start: number; end: number } | null) => {
+            const source = sourceNodeRef.current;
+            const audioContext = audioContextRef.current;
+            if (!source || !audioContext) {
+                loopRef.current = bounds;
+                return;
+            }
+
+            const time = getPlaybackTime(audioContext, false);
+            loopRef.current = bounds;
+            if (bounds && (time < bounds.start || time >= bounds.end) && currentAudioDataRef.current) {
+                // Already past the new loop, jump to its start rather than waiting for the end of the file
+                play(currentAudioDataRef.current, bounds.start);
+                return;
+            }
+            // Change the running source in place so playback doesn't skip, and count from here on
+            pausedAtRef.current = time;
+            playStartRef.current = Math.min(playStartRef.current, time);
+            startTimeRef.current = audioContext.currentTime;
+            source.loop = bounds !== null;
+            if (bounds) {
+                source.loopStart = bounds.start;
+                source.loopEnd = bounds.end;
+            }
+        },
+        [getPlaybackTime, play]
+    );
+
+    const setPlaybackRate = useCallback(
+        (rate: number, preservePitch: boolean) => {
+            const source = sourceNodeRef.current;
+            const audioContext = audioContextRef.current;
+            const sourceTime = source && audioContext ? getPlaybackTime(audioContext, false) : 0;
+            const heardTime = source && audioContext ? getPlaybackTime(audioContext) : 0;
+            playbackRateRef.current = rate;
+            preservePitchRef.current = preservePitch;
+            if (!source || !audioContext || !currentAudioDataRef.current) return;
+
+            if (isPitchShiftingRef.current !== (pitchShiftNodeRef.current !== null && preservePitch && rate !== 1)) {
+                // Routing through or around the pitch shifter needs a new source, carry on from what was heard
+                play(currentAudioDataRef.current, heardTime);
+                return;
+            }
+            // Count from here on at the new rate so the playhead doesn't jump
+            pausedAtRef.current = sourceTime;
+            playStartRef.current = Math.min(playStartRef.current, sourceTime);
+            startTimeRef.current = audioContext.currentTime;
+            source.playbackRate.value = rate;
+            pitchShiftNodeRef.current?.port.postMessage({ pitch: 1 / rate } satisfies PitchShiftWorkletMessage);
+        },
+        [getPlaybackTime, play]
+    );
+
+    const startScrub = useCallback(
+        (file: Blob) => {
+            isScrubbingRef.current = true;
+            lastScrubRef.current = null;
+            scrubEndRef.current = 0;
+            initialize(file).catch((error) => {
+                console.error("Failed to initialize audio:", error);
+            });
+        },
+        [initialize]
+    );
+
+    const scrub = useCallback((time: number) => {
+        const audioContext = audioContextRef.current;
+        const audioBuffer = audioBufferRef.current;
+        if (!isScrubbingRef.current || !audioContext || !audioBuffer) return;
+
+        const at = performance.now() / 1000;
+        const last = lastScrubRef.current;
+        lastScrubRef.current = { time, at };
+        // Starting or resuming a motion after a pause only sets where it starts from
+        if (!last || at - last.at > SCRUB_MAX_INTERVAL) return;
+
+        const distance = time - last.time;
+        const interval = Math.max(at - last.at, SCRUB_MIN_INTERVAL);
+        // Dragging faster than the top rate skips ahead to the audio just before the playhead
+        const length = Math.min(Math.abs(distance), interval * SCRUB_MAX_RATE);
+        const frames = Math.round(length * audioBuffer.sampleRate);
+        if (frames < 2) return;
+        const rate = Math.max(length / interval, SCRUB_MIN_RATE);
+
+        // Dragging backwards plays the audio reversed, always ending at the playhead
+        const backwards = distance < 0;
+        const endFrame = Math.round(time * audioBuffer.sampleRate);
+        const startFrame = backwards ? endFrame : endFrame - frames;
+        const grain = audioContext.createBuffer(audioBuffer.numberOfChannels, frames, audioBuffer.sampleRate);
+        for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+            const samples = grain.getChannelData(channel);
+            samples.set(audioBuffer.getChannelData(channel).subarray(Math.max(0, startFrame), startFrame + frames), Math.max(0, -startFrame));
+            if (backwards) samples.reverse();
+        }
+
+        const duration = frames / audioBuffer.sampleRate / rate;
+        const startAt = scrubEndRef.current - audioContext.currentTime > SCRUB_MAX_LAG ? audioContext.currentTime : Math.max(audioContext.currentTime, scrubEndRef.current - SCRUB_FADE);
+        scrubEndRef.current = startAt + duration;
+
+        const source = audioContext.createBufferSource();
+        source.buffer = grain;
+        source.playbackRate.value = rate;
+        const envelope = audioContext.createGain();
+        const fade = Math.min(SCRUB_FADE, duration / 2);
+        envelope.gain.setValueAtTime(0, startAt);
+        envelope.gain.linearRampToValueAtTime(1, startAt + fade);
+        envelope.gain.setValueAtTime(1, startAt + duration - fade);
+        envelope.gain.linearRampToValueAtTime(0, startAt + duration);
+        source.connect(envelope);
+        envelope.connect(audioContext.destination);
+
+        const grains = scrubGrainsRef.current;
+        grains.add(source);
+        source.onended = () => {
+            grains.delete(source);
+            envelope.disconnect();
+        };
+        source.start(startAt);
+    }, []);
+
+    const stopScrub = useCallback(() => {
+        isScrubbingRef.current = false;
+        lastScrubRef.current = null;
+        for (const grain of scrubGrainsRef.current) {
+            try {
+                grain.stop();
+            } catch (_e) {
+                // Ignore if already stopped
+            }
+        }
+        scrubGrainsRef.current.clear();
+    }, []);
 
     const seek = useCallback((time: number) => {
         pausedAtRef.current = time;
@@ -223,5 +477,5 @@ export function useAudioService(isPlaying: boolean, isDragging: boolean, callbac
         return cleanup;
     }, [cleanup]);
 
-    return { initialize, play, pause, seek, cleanup };
+    return { initialize, play, pause, seek, setLoop, setPlaybackRate, startScrub, scrub, stopScrub, cleanup };
 }
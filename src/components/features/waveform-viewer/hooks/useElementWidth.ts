@@ -0,0 +1,22 @@
+import { type RefObject, useEffect } from "react";
+
+// Report the inner width of an element, once on mount and again whenever it changes size
+export function useElementWidth(ref: RefObject<HTMLElement | null>, active: boolean, onResize: (width: number) => void) {
+    useEffect(() => {
+        const element = ref.current;
+        if (!active || !element) return;
+
+        let lastWidth = -1;
+        const measure = () => {
+            if (element.clientWidth !== lastWidth) {
+                lastWidth = element.clientWidth;
+                onResize(lastWidth);
+            }
+        };
+
+        measure();
+        const observer = new ResizeObserver(measure);
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, [ref, active, onResize]);
+}
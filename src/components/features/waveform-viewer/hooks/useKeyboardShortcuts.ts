@@ -1,7 +1,13 @@
 import { useEffect } from "react";
 
+// Handlers return false to leave the key alone, so the browser still gets e.g. Ctrl + F
 export interface KeyboardShortcuts {
-    [key: string]: (event: KeyboardEvent) => void | Promise<void>;
+    [key: string]: (event: KeyboardEvent) => void | false | Promise<void>;
+}
+
+// Browser and system shortcuts use these, plain-key bindings step aside for them
+export function hasModifier(event: KeyboardEvent): boolean {
+    return event.ctrlKey || event.metaKey || event.altKey;
 }
 
 export function useKeyboardShortcuts(shortcuts: KeyboardShortcuts) {
@@ -11,11 +17,17 @@ export function useKeyboardShortcuts(shortcuts: KeyboardShortcuts) {
             if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement || (event.target as HTMLElement)?.isContentEditable) {
                 return;
             }
+            // Nor behind a modal dialog, e.g. tags can't change while the restore prompt asks about them
+            if (document.querySelector('[role="dialog"][aria-modal="true"]')) {
+                return;
+            }
 
             const handler = shortcuts[event.code] || shortcuts[event.key];
             if (handler) {
+                const result = handler(event);
+                if (result === false) return;
                 event.preventDefault();
-                await handler(event);
+                await result;
             }
         };
 
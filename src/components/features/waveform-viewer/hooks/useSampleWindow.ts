@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import type { AudioData } from "../types";
+import { readSampleWindow, type SampleWindow } from "../utils/samples";
+
+// Float32 samples read across all channels, 32 MB. Long multichannel files have coarse peaks, so their sample-level
+// views can span millions of frames
+const MAX_WINDOW_SAMPLES = 8 * 1024 * 1024;
+
+// Raw frames around the view for sample-level zoom, read again once the view leaves the loaded window
+export function useSampleWindow(audioData: AudioData | null, startFrame: number, endFrame: number, enabled: boolean): SampleWindow | null {
+    const [loaded, setLoaded] = useState<{ audioData: AudioData; samples: SampleWindow } | null>(null);
+    const current = enabled && loaded?.audioData === audioData ? loaded.samples : null;
+    const covered = current !== null && current.startFrame <= startFrame && current.startFrame + current.length >= Math.min(endFrame, audioData?.frameCount ?? 0);
+
+    useEffect(() => {
+        if (!enabled || !audioData || covered) return;
+
+        let cancelled = false;
+        // A view's worth of frames on each side, so short scrolls stay inside the window, within the cap and the file
+        const span = Math.max(1, endFrame - startFrame);
+        const maxLength = Math.max(1, Math.floor(MAX_WINDOW_SAMPLES / audioData.channels));
+        const length = Math.min(span * 3, maxLength, audioData.frameCount);
+        const first = Math.max(0, Math.min(startFrame - Math.max(0, Math.floor((length - span) / 2)), audioData.frameCount - length));
+        readSampleWindow(audioData, first, length)
+            .then((samples) => {
+                if (!cancelled) setLoaded({ audioData, samples });
+            })
+            .catch((error) => {
+                console.error("Failed to read samples:", error);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [audioData, startFrame, endFrame, enabled, covered]);
+
+    return current;
+}
@@ -0,0 +1,149 @@
+import type React from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SavedSession } from "../types";
+import { deleteSession, listSessions, loadSession, saveSession } from "../utils/sessionStore";
+import type { WaveformAction, WaveformState } from "./useWaveformReducer";
+
+const RECENT_SESSION_COUNT = 10;
+// Quiet time after the last edit before it is written
+const AUTOSAVE_DELAY_MS = 500;
+
+type SessionSnapshot = Pick<SavedSession, "tags" | "tagCategories" | "startPosition" | "pixelsPerSecond" | "scrollLeft">;
+
+interface SessionIdentity {
+    key: string;
+    fileName: string;
+    fileSize: number;
+}
+
+export interface RestoreOffer {
+    session: SavedSession;
+    matchesFile: boolean; // False when a recent session was opened with a different file
+}
+
+function isSameSnapshot(a: SessionSnapshot, b: SessionSnapshot): boolean {
+    return (Object.keys(a) as Array<keyof SessionSnapshot>).every((key) => a[key] === b[key]);
+}
+
+// Saves the open file's tags and view to IndexedDB as they change, and finds earlier sessions for files as they are opened
+export function useSessionStore(state: WaveformState, dispatch: React.Dispatch<WaveformAction>) {
+    const [identity, setIdentity] = useState<SessionIdentity | null>(null);
+    const [restoreOffer, setRestoreOffer] = useState<RestoreOffer | null>(null);
+    const [recentSessions, setRecentSessions] = useState<SavedSession[]>([]);
+    // Session picked from the recent list, applied to the next file opened
+    const requestedKeyRef = useRef<string | null>(null);
+    // Newer loads win if lookups finish out of order
+    const loadIdRef = useRef(0);
+    // State when the session started, nothing is written until it changes
+    const baselineRef = useRef<SessionSnapshot | null>(null);
+    const changedRef = useRef(false);
+    // Whether IndexedDB holds a record for this file, files without tags aren't stored until they get one
+    const storedRef = useRef(false);
+    const pendingSaveRef = useRef<(() => void) | null>(null);
+
+    const refreshRecentSessions = useCallback(() => {
+        listSessions(RECENT_SESSION_COUNT)
+            .then(setRecentSessions)
+            .catch((error) => console.error("Could not list saved sessions:", error));
+    }, []);
+
+    useEffect(() => {
+        refreshRecentSessions();
+    }, [refreshRecentSessions]);
+
+    // Called once a file has been decoded, with the fingerprint computed alongside decoding
+    const startSession = useCallback(
+        async (file: File, fingerprint: Promise<string>) => {
+            // The previous file's last edit may still be waiting out the delay
+            pendingSaveRef.current?.();
+            const loadId = ++loadIdRef.current;
+            const requestedKey = requestedKeyRef.current;
+            requestedKeyRef.current = null;
+            setIdentity(null);
+            setRestoreOffer(null);
+
+            try {
+                const key = await fingerprint;
+                const [saved, requested] = await Promise.all([loadSession(key), requestedKey && requestedKey !== key ? loadSession(requestedKey) : null]);
+                if (loadId !== loadIdRef.current) return;
+
+                storedRef.current = saved !== null;
+                if (requested) {
+                    setRestoreOffer({ session: requested, matchesFile: false });
+                } else if (saved && requestedKey === key) {
+                    // Opened from the recent list, no need to ask
+                    dispatch({ type: "RESTORE_SESSION", payload: saved });
+                } else if (saved) {
+                    setRestoreOffer({ session: saved, matchesFile: true });
+                }
+                setIdentity({ key, fileName: file.name, fileSize: file.size });
+            } catch (error) {
+                console.error("Could not look up a saved session:", error);
+            }
+        },
+        [dispatch]
+    );
+
+    const { tags, tagCategories, startPosition, pixelsPerSecond, scrollLeft } = state;
+
+    useEffect(() => {
+        if (!identity) {
+            baselineRef.current = null;
+            changedRef.current = false;
+            return;
+        }
+        const snapshot = { tags, tagCategories, startPosition, pixelsPerSecond, scrollLeft };
+        if (!baselineRef.current) {
+            baselineRef.current = snapshot;
+            return;
+        }
+        if (!changedRef.current && isSameSnapshot(baselineRef.current, snapshot)) return;
+        changedRef.current = true;
+        // Saving while the user decides whether to restore would overwrite what they are asked about, changes made
+        // meanwhile still count and are written once they answer
+        if (restoreOffer) return;
+        if (!storedRef.current && tags.length === 0) return;
+
+        const save = () => {
+            pendingSaveRef.current = null;
+            storedRef.current = true;
+            saveSession({ ...identity, savedAt: Date.now(), ...snapshot })
+                .then(refreshRecentSessions)
+                .catch((error) => console.error("Could not save the session:", error));
+        };
+        pendingSaveRef.current = save;
+        const timer = setTimeout(save, AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [identity, restoreOffer, tags, tagCategories, startPosition, pixelsPerSecond, scrollLeft, refreshRecentSessions]);
+
+    // Don't lose the last edit when the page is closed within the autosave delay
+    useEffect(() => {
+        const handlePageHide = () => pendingSaveRef.current?.();
+        window.addEventListener("pagehide", handlePageHide);
+        return () => window.removeEventListener("pagehide", handlePageHide);
+    }, []);
+
+    const acceptRestore = useCallback(() => {
+        if (!restoreOffer) return;
+        dispatch({ type: "RESTORE_SESSION", payload: restoreOffer.session });
+        setRestoreOffer(null);
+    }, [dispatch, restoreOffer]);
+
+    const declineRestore = useCallback(() => setRestoreOffer(null), []);
+
+    const requestSession = useCallback((key: string) => {
+        requestedKeyRef.current = key;
+    }, []);
+
+    const removeSession = useCallback(
+        (key: string) => {
+            if (key === identity?.key) storedRef.current = false;
+            deleteSession(key)
+                .then(refreshRecentSessions)
+                .catch((error) => console.error("Could not delete the session:", error));
+        },
+        [identity, refreshRecentSessions]
+    );
+
+    return { sessionKey: identity?.key ?? null, recentSessions, restoreOffer, startSession, acceptRestore, declineRestore, requestSession, removeSession };
+}
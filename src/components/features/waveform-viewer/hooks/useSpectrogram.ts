@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { AudioData, DownmixMode, SpectrogramSettings } from "../types";
+import { bundleWorker } from "../workers/bundleWorker" with { type: "macro" };
+import { createWorkerUrl } from "../workers/bundleWorker";
+import type { SpectrogramWorkerRequest, SpectrogramWorkerResponse } from "../workers/spectrogram.worker";
+
+const SPECTROGRAM_WORKER_SOURCE = bundleWorker("./spectrogram.worker.ts");
+let spectrogramWorkerUrl: string | null = null;
+
+// Computed column runs kept around, enough for a few screens of scrolling back and forth
+const MAX_CACHED_RUNS = 32;
+
+export interface SpectrogramColumns {
+    firstColumn: number;
+    columnCount: number;
+    binCount: number;
+    levels: Uint8Array;
+}
+
+export type GetSpectrogramColumns = (firstColumn: number, columnCount: number) => SpectrogramColumns | null;
+
+interface SpectrogramCache {
+    audioData: AudioData | null;
+    key: string;
+    worker: Worker | null;
+    runs: Map<string, SpectrogramColumns>;
+    pending: Map<number, { runKey: string; firstColumn: number; columnCount: number }>;
+    nextId: number;
+}
+
+// Spectrogram columns computed in a worker on demand. The getter returns what is ready and queues the rest,
+// it changes identity whenever new columns arrive so tiles drawn from it repaint.
+export function useSpectrogram(audioData: AudioData | null, downmix: DownmixMode, settings: SpectrogramSettings, framesPerColumn: number): GetSpectrogramColumns {
+    const [version, setVersion] = useState(0);
+    const cacheRef = useRef<SpectrogramCache>({ audioData: null, key: "", worker: null, runs: new Map(), pending: new Map(), nextId: 0 });
+    const { fftSize, windowFunction } = settings;
+
+    // Anything computed for another file, mix, window or zoom level is dropped, including work still in the worker
+    const reset = useCallback((audioData: AudioData | null, key: string) => {
+        const cache = cacheRef.current;
+        cache.worker?.terminate();
+        cacheRef.current = { audioData, key, worker: null, runs: new Map(), pending: new Map(), nextId: cache.nextId };
+    }, []);
+
+    useEffect(() => () => reset(null, ""), [reset]);
+
+    // biome-ignore lint/correctness/useExhaustiveDependencies: version only forces a new getter once columns arrive
+    return useCallback(
+        (firstColumn: number, columnCount: number) => {
+            if (!audioData || columnCount <= 0) return null;
+
+            const key = `${downmix}:${fftSize}:${windowFunction}:${framesPerColumn}`;
+            if (cacheRef.current.audioData !== audioData || cacheRef.current.key !== key) {
+                reset(audioData, key);
+            }
+            const cache = cacheRef.current;
+            const runKey = `${firstColumn}:${columnCount}`;
+            const run = cache.runs.get(runKey);
+            if (run) return run;
+
+            if (![...cache.pending.values()].some((request) => request.runKey === runKey)) {
+                const worker = cache.worker ?? startWorker(cache, () => setVersion((value) => value + 1));
+                const id = cache.nextId++;
+                cache.pending.set(id, { runKey, firstColumn, columnCount });
+                const { file, format, channels, frameCount, dataOffset } = audioData;
+                const request: SpectrogramWorkerRequest = { id, source: { file, format, channels, frameCount, dataOffset }, downmix, settings: { fftSize, windowFunction }, firstColumn, columnCount, framesPerColumn };
+                worker.postMessage(request);
+            }
+            return null;
+        },
+        [audioData, downmix, fftSize, windowFunction, framesPerColumn, reset, version]
+    );
+}
+
+function startWorker(cache: SpectrogramCache, onColumns: () => void): Worker {
+    spectrogramWorkerUrl ??= createWorkerUrl(SPECTROGRAM_WORKER_SOURCE);
+    const worker = new Worker(spectrogramWorkerUrl, { type: "module" });
+
+    worker.onmessage = (event: MessageEvent<SpectrogramWorkerResponse>) => {
+        const message = event.data;
+        const request = cache.pending.get(message.id);
+        if (!request) return;
+        cache.pending.delete(message.id);
+
+        if (message.type === "error") {
+            console.error("Failed to compute spectrogram:", message.message);
+            return;
+        }
+        cache.runs.set(request.runKey, { firstColumn: request.firstColumn, columnCount: request.columnCount, binCount: message.levels.length / request.columnCount, levels: message.levels });
+        // Map iteration follows insertion order, so the first key is the oldest run
+        if (cache.runs.size > MAX_CACHED_RUNS) {
+            const oldest = cache.runs.keys().next().value;
+            if (oldest !== undefined) cache.runs.delete(oldest);
+        }
+        onColumns();
+    };
+
+    worker.onerror = (event) => {
+        console.error("Spectrogram worker failed:", event.message);
+    };
+
+    cache.worker = worker;
+    return worker;
+}
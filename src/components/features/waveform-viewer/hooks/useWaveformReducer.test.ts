@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { historyReducer, initialState, type WaveformAction, type WaveformHistory } from "./useWaveformReducer";
+
+const EMPTY_HISTORY: WaveformHistory = { present: initialState, past: [], future: [], lastEdit: null };
+
+// A time of 0 would reset the clock to the real time
+const START_TIME = Date.UTC(2024, 0, 1);
+
+// Each action dispatched at its own time in milliseconds
+function run(steps: Array<[number, WaveformAction]>, history = EMPTY_HISTORY): WaveformHistory {
+    return steps.reduce((current, [time, action]) => {
+        setSystemTime(new Date(START_TIME + time));
+        return historyReducer(current, action);
+    }, history);
+}
+
+const setStart = (position: number): WaveformAction => ({ type: "SET_START_POSITION", payload: { position } });
+
+afterEach(() => {
+    setSystemTime();
+});
+
+describe("historyReducer", () => {
+    test("merges repeats of an edit within a second into one step", () => {
+        const history = run([
+            [0, setStart(1)],
+            [500, setStart(2)],
+            [1400, setStart(3)],
+            [3000, setStart(4)],
+        ]);
+        expect(history.past.map((snapshot) => snapshot.startPosition)).toEqual([0, 3]);
+        expect(run([[3100, { type: "UNDO" }]], history).present.startPosition).toBe(3);
+    });
+
+    test("doesn't merge different edits", () => {
+        const history = run([
+            [0, setStart(1)],
+            [100, { type: "ADD_TAG", payload: { start: 1, end: 2 } }],
+            [200, setStart(2)],
+        ]);
+        expect(history.past).toHaveLength(3);
+    });
+
+    test("leaves actions that aren't edits out of the history", () => {
+        const history = run([
+            [0, { type: "SET_TIME_FORMAT", payload: { timeFormat: "samples" } }],
+            [5000, { type: "SELECT_TAG", payload: { id: "tag" } }],
+        ]);
+        expect(history.present.timeFormat).toBe("samples");
+        expect(history.past).toEqual([]);
+        expect(history.lastEdit).toBeNull();
+    });
+
+    test("keeps the latest 200 steps", () => {
+        const history = run(Array.from({ length: 250 }, (_, index): [number, WaveformAction] => [index * 2000, setStart(index + 1)]));
+        expect(history.past).toHaveLength(200);
+        expect(history.past[0]?.startPosition).toBe(50);
+        expect(history.past[199]?.startPosition).toBe(249);
+    });
+
+    test("undoes and redoes, a new edit after an undo clears the redo steps", () => {
+        const edited = run([
+            [0, setStart(1)],
+            [2000, setStart(2)],
+            [4000, { type: "UNDO" }],
+        ]);
+        expect(edited.present.startPosition).toBe(1);
+        expect(edited.future.map((snapshot) => snapshot.startPosition)).toEqual([2]);
+        expect(run([[4100, { type: "REDO" }]], edited).present.startPosition).toBe(2);
+
+        const branched = run([[4200, setStart(5)]], edited);
+        expect(branched.future).toEqual([]);
+        expect(run([[4300, { type: "REDO" }]], branched)).toBe(branched);
+    });
+});
@@ -1,25 +1,68 @@
 import { useReducer } from "react";
-import type { AudioData } from "../types";
+import type { AmplitudeScale, AudioData, ChannelView, DisplayMode, DownmixMode, LoopRange, SavedSession, SpectrogramSettings, Tag, TagCategory, TimeFormat, TransportState } from "../types";
+import { clampAmplitudeZoom } from "../utils/amplitude";
+import { resolveLoopRange } from "../utils/loop";
+import type { ImportedTag } from "../utils/tagImport";
+import { createId, createTag, DEFAULT_TAG_CATEGORIES, findAdjacentTag, getNewCategoryColor } from "../utils/tags";
+import { cuePointsToTags } from "../utils/wavMetadata";
+import { clampPixelsPerSecond, clampScrollLeft, getFitPixelsPerSecond, getRangeZoom } from "../utils/zoom";
+
+export interface LoadProgress {
+    bytesRead: number;
+    totalBytes: number;
+}
 
 export interface WaveformState {
     audioData: AudioData | null;
     fileName: string;
     loading: boolean;
-    screenWidth: number;
-    isPlaying: boolean;
+    loadProgress: LoadProgress | null;
+    viewportWidth: number; // Visible width of the waveform in CSS pixels
+    pixelsPerSecond: number;
+    scrollLeft: number; // Offset of the viewport into the full-length content, in CSS pixels
+    transport: TransportState;
+    playFrom: { time: number }; // Replaced whenever playback (re)starts, so starting again at the same time still restarts
+    followPlayhead: boolean; // Scroll along with playback
+    scrubAudio: boolean; // Play what the playhead passes over while it's dragged
     currentTime: number;
     startPosition: number;
     isDragging: boolean;
-    tags: Array<[number, number]>;
+    tags: Tag[];
     pendingTagStart: number | null;
+    selectedTag: string | null; // Tag ID
+    tagCategories: TagCategory[];
+    channelView: ChannelView;
+    downmix: DownmixMode;
+    amplitudeScale: AmplitudeScale;
+    amplitudeZoom: number; // Display gain, 1 maps full scale to the lane edges
+    laneHeight: number; // CSS pixels per lane
+    timeFormat: TimeFormat;
+    displayMode: DisplayMode;
+    spectrogram: SpectrogramSettings;
+    loop: LoopRange | null;
+    loopEnabled: boolean;
+    loopPreRoll: number; // Seconds played before the loop range, and after it
+    loopPostRoll: number;
+    playbackRate: number; // Speed factor, 1 plays in real time
+    preservePitch: boolean; // Time-stretch instead of resampling when not at 1x
 }
 
+// What a tag edit may change, the ID and timestamps are managed by the reducer
+export type TagFields = Pick<Tag, "start" | "end" | "label" | "categoryId" | "notes">;
+
 export type WaveformAction =
     | { type: "FILE_LOAD_START" }
     | { type: "FILE_LOAD_SUCCESS"; payload: { audioData: AudioData; fileName: string } }
+    | { type: "FILE_LOAD_PROGRESS"; payload: LoadProgress }
     | { type: "FILE_LOAD_ERROR" }
+    | { type: "FILE_LOAD_CANCEL" }
     | { type: "PLAY" }
     | { type: "PAUSE" }
+    | { type: "STOP" }
+    | { type: "PLAYBACK_ENDED" }
+    | { type: "SKIP_TAG"; payload: { direction: "next" | "previous" } }
+    | { type: "SET_FOLLOW_PLAYHEAD"; payload: { follow: boolean } }
+    | { type: "SET_SCRUB_AUDIO"; payload: { enabled: boolean } }
     | { type: "SEEK"; payload: { time: number } }
     | { type: "SET_START_POSITION"; payload: { position: number } }
     | { type: "DRAG_START" }
@@ -27,27 +70,110 @@ export type WaveformAction =
     | { type: "DRAG_END" }
     | { type: "TIME_UPDATE"; payload: { time: number } }
     | { type: "TOGGLE_TAG"; payload: { currentTime: number } }
-    | { type: "REMOVE_TAG"; payload: { index: number } }
+    | { type: "ADD_TAG"; payload: { start: number; end: number } & Partial<TagFields> }
+    | { type: "UPDATE_TAG"; payload: { id: string; changes: Partial<TagFields> } }
+    | { type: "DELETE_TAG"; payload: { id: string } }
+    | { type: "IMPORT_TAGS"; payload: { tags: ImportedTag[] } }
+    | { type: "RESTORE_SESSION"; payload: Pick<SavedSession, "tags" | "tagCategories" | "startPosition" | "pixelsPerSecond" | "scrollLeft"> }
+    | { type: "SELECT_TAG"; payload: { id: string | null } }
+    | { type: "ADD_TAG_CATEGORY"; payload: { name: string; color: string } }
+    | { type: "UPDATE_TAG_CATEGORY"; payload: { id: string; changes: Partial<Omit<TagCategory, "id">> } }
+    | { type: "DELETE_TAG_CATEGORY"; payload: { id: string } }
     | { type: "CLEAR_PENDING_TAG" }
-    | { type: "RESIZE"; payload: { screenWidth: number } };
+    | { type: "RESIZE"; payload: { viewportWidth: number } }
+    | { type: "ZOOM"; payload: { factor: number; anchorX: number } }
+    | { type: "ZOOM_TO_FIT" }
+    | { type: "ZOOM_TO_RANGE"; payload: { start: number; end: number } }
+    | { type: "SCROLL"; payload: { scrollLeft: number } }
+    | { type: "SCROLL_BY"; payload: { delta: number } }
+    | { type: "SET_CHANNEL_VIEW"; payload: { channelView: ChannelView } }
+    | { type: "SET_DOWNMIX"; payload: { downmix: DownmixMode } }
+    | { type: "SET_AMPLITUDE_SCALE"; payload: { amplitudeScale: AmplitudeScale } }
+    | { type: "SET_AMPLITUDE_ZOOM"; payload: { amplitudeZoom: number } }
+    | { type: "SET_LANE_HEIGHT"; payload: { laneHeight: number } }
+    | { type: "SET_TIME_FORMAT"; payload: { timeFormat: TimeFormat } }
+    | { type: "SET_DISPLAY_MODE"; payload: { displayMode: DisplayMode } }
+    | { type: "SET_LOOP"; payload: LoopRange }
+    | { type: "SET_LOOP_POINT"; payload: { point: "start" | "end"; time: number } }
+    | { type: "SET_LOOP_ENABLED"; payload: { enabled: boolean } }
+    | { type: "SET_LOOP_PADDING"; payload: { preRoll?: number; postRoll?: number } }
+    | { type: "CLEAR_LOOP" }
+    | { type: "SET_PLAYBACK_RATE"; payload: { rate: number } }
+    | { type: "SET_PRESERVE_PITCH"; payload: { preservePitch: boolean } }
+    | { type: "UNDO" }
+    | { type: "REDO" }
+    | { type: "SET_SPECTROGRAM_SETTINGS"; payload: Partial<SpectrogramSettings> };
 
 export const initialState: WaveformState = {
     audioData: null,
     fileName: "",
     loading: false,
-    screenWidth: typeof window !== "undefined" ? window.innerWidth : 1920,
-    isPlaying: false,
+    loadProgress: null,
+    // Page padding and waveform margins, until the waveform is measured
+    viewportWidth: (typeof window !== "undefined" ? window.innerWidth : 1920) - 64,
+    pixelsPerSecond: 1,
+    scrollLeft: 0,
+    transport: "stopped",
+    playFrom: { time: 0 },
+    followPlayhead: true,
+    scrubAudio: true,
     currentTime: 0,
     startPosition: 0,
     isDragging: false,
     tags: [],
     pendingTagStart: null,
+    selectedTag: null,
+    tagCategories: DEFAULT_TAG_CATEGORIES,
+    channelView: "mixed",
+    downmix: "average",
+    amplitudeScale: "linear",
+    amplitudeZoom: 1,
+    laneHeight: 256,
+    timeFormat: "clock",
+    displayMode: "waveform",
+    spectrogram: {
+        fftSize: 2048,
+        windowFunction: "hann",
+        overlap: 0.75,
+        frequencyScale: "log",
+        colorMap: "viridis",
+    },
+    loop: null,
+    loopEnabled: false,
+    loopPreRoll: 0,
+    loopPostRoll: 0,
+    playbackRate: 1,
+    preservePitch: true,
 };
 
+// Share of the view left behind the playhead when following turns the page
+const FOLLOW_PAGE_MARGIN = 0.1;
+
+// While following, a playhead that runs off the view turns the page so it's back near the left edge
+function keepPlayheadInView(state: WaveformState): WaveformState {
+    if (!state.followPlayhead || state.isDragging || !state.audioData) return state;
+    const x = state.currentTime * state.pixelsPerSecond - state.scrollLeft;
+    if (x >= 0 && x < state.viewportWidth) return state;
+    const scrollLeft = clampScrollLeft(state.currentTime * state.pixelsPerSecond - state.viewportWidth * FOLLOW_PAGE_MARGIN, state.audioData.duration * state.pixelsPerSecond, state.viewportWidth);
+    return scrollLeft === state.scrollLeft ? state : { ...state, scrollLeft };
+}
+
+// Zoom to a new level and scroll so anchorTime stays anchorX pixels from the left edge of the viewport
+function zoomAround(state: WaveformState, pixelsPerSecond: number, anchorTime: number, anchorX: number): WaveformState {
+    if (!state.audioData) return state;
+    const clamped = clampPixelsPerSecond(pixelsPerSecond, state.audioData, state.viewportWidth);
+    const scrollLeft = clampScrollLeft(anchorTime * clamped - anchorX, state.audioData.duration * clamped, state.viewportWidth);
+    return { ...state, pixelsPerSecond: clamped, scrollLeft };
+}
+
 export function waveformReducer(state: WaveformState, action: WaveformAction): WaveformState {
     switch (action.type) {
         case "FILE_LOAD_START":
-            return { ...state, loading: true };
+            return { ...state, loading: true, loadProgress: null };
+
+        case "FILE_LOAD_PROGRESS":
+            if (!state.loading) return state;
+            return { ...state, loadProgress: action.payload };
 
         case "FILE_LOAD_SUCCESS":
             return {
@@ -55,24 +181,62 @@ export function waveformReducer(state: WaveformState, action: WaveformAction): W
                 audioData: action.payload.audioData,
                 fileName: action.payload.fileName,
                 loading: false,
+                loadProgress: null,
                 currentTime: 0,
                 startPosition: 0,
-                isPlaying: false,
-                tags: [],
+                transport: "stopped",
+                pixelsPerSecond: getFitPixelsPerSecond(action.payload.audioData.duration, state.viewportWidth),
+                scrollLeft: 0,
+                // Markers and regions stored in the file become the initial tags
+                tags: cuePointsToTags(action.payload.audioData.metadata.cuePoints, action.payload.audioData.sampleRate, action.payload.audioData.duration),
                 pendingTagStart: null,
+                selectedTag: null,
+                loop: null,
+                loopEnabled: false,
             };
 
         case "FILE_LOAD_ERROR":
-            return { ...state, loading: false };
+            return { ...state, loading: false, loadProgress: null };
 
-        case "PLAY":
-            return { ...state, isPlaying: true };
+        case "FILE_LOAD_CANCEL":
+            // Keep whatever was loaded before the cancelled file
+            return { ...state, loading: false, loadProgress: null };
+
+        case "PLAY": {
+            if (!state.audioData || state.transport === "playing") return state;
+            // Playing again after reaching the end starts over from the start marker
+            const time = state.currentTime < state.audioData.duration ? state.currentTime : state.startPosition;
+            return keepPlayheadInView({ ...state, transport: "playing", currentTime: time, playFrom: { time } });
+        }
 
         case "PAUSE":
-            return { ...state, isPlaying: false };
+            if (state.transport !== "playing") return state;
+            return { ...state, transport: "paused" };
+
+        case "STOP":
+            return { ...state, transport: "stopped", currentTime: state.startPosition };
 
-        case "SEEK":
-            return { ...state, currentTime: action.payload.time };
+        case "PLAYBACK_ENDED":
+            if (!state.audioData) return state;
+            return { ...state, transport: "stopped", currentTime: state.audioData.duration };
+
+        case "SEEK": {
+            const { time } = action.payload;
+            // Seeking while playing carries on from the new position
+            return { ...state, currentTime: time, playFrom: state.transport === "playing" ? { time } : state.playFrom };
+        }
+
+        case "SKIP_TAG": {
+            const tag = findAdjacentTag(state.tags, state.currentTime, action.payload.direction);
+            if (!tag) return state;
+            return keepPlayheadInView({ ...state, currentTime: tag.start, selectedTag: tag.id, playFrom: state.transport === "playing" ? { time: tag.start } : state.playFrom });
+        }
+
+        case "SET_FOLLOW_PLAYHEAD":
+            return keepPlayheadInView({ ...state, followPlayhead: action.payload.follow });
+
+        case "SET_SCRUB_AUDIO":
+            return { ...state, scrubAudio: action.payload.enabled };
 
         case "SET_START_POSITION":
             return { ...state, startPosition: action.payload.position };
@@ -87,7 +251,7 @@ export function waveformReducer(state: WaveformState, action: WaveformAction): W
             return { ...state, isDragging: false };
 
         case "TIME_UPDATE":
-            return { ...state, currentTime: action.payload.time };
+            return keepPlayheadInView({ ...state, currentTime: action.payload.time });
 
         case "TOGGLE_TAG": {
             const { currentTime } = action.payload;
@@ -101,10 +265,12 @@ export function waveformReducer(state: WaveformState, action: WaveformAction): W
 
                 // Only add tag if end time is after start time
                 if (endTime > startTime) {
+                    const tag = createTag(startTime, endTime);
                     return {
                         ...state,
-                        tags: [...state.tags, [startTime, endTime]],
+                        tags: [...state.tags, tag],
                         pendingTagStart: null,
+                        selectedTag: tag.id,
                     };
                 } else {
                     // If end is before start, reset
@@ -113,23 +279,275 @@ export function waveformReducer(state: WaveformState, action: WaveformAction): W
             }
         }
 
-        case "REMOVE_TAG":
+        case "ADD_TAG": {
+            const { start, end, ...fields } = action.payload;
+            const tag = createTag(start, end, fields);
+            return { ...state, tags: [...state.tags, tag], selectedTag: tag.id };
+        }
+
+        case "UPDATE_TAG": {
+            const { id, changes } = action.payload;
+            const tag = state.tags.find((existing) => existing.id === id);
+            if (!state.audioData || !tag) return state;
+            const updated = { ...tag, ...changes, modifiedAt: Date.now() };
+            if (changes.start !== undefined || changes.end !== undefined) {
+                // Moved edges stay inside the file and can't cross, a tag is at least one frame long
+                const minLength = 1 / state.audioData.sampleRate;
+                updated.start = Math.min(Math.max(updated.start, 0), state.audioData.duration - minLength);
+                updated.end = Math.min(Math.max(updated.end, updated.start + minLength), state.audioData.duration);
+            }
+            return { ...state, tags: state.tags.map((existing) => (existing.id === id ? updated : existing)) };
+        }
+
+        case "DELETE_TAG": {
+            const { id } = action.payload;
+            const looped = state.loop?.tagId === id ? resolveLoopRange(state.loop, state.tags) : null;
+            return {
+                ...state,
+                tags: state.tags.filter((tag) => tag.id !== id),
+                selectedTag: state.selectedTag === id ? null : state.selectedTag,
+                // The loop stays where the tag was
+                loop: looped ? { ...looped, tagId: null } : state.loop,
+            };
+        }
+
+        case "IMPORT_TAGS": {
+            // Categories are matched by name, unknown ones are added to the palette
+            const tagCategories = [...state.tagCategories];
+            const getCategoryId = (name: string | null) => {
+                if (!name?.trim()) return null;
+                const existing = tagCategories.find((category) => category.name.trim().toLowerCase() === name.trim().toLowerCase());
+                if (existing) return existing.id;
+                const category = { id: createId(), name: name.trim(), color: getNewCategoryColor(tagCategories.length) };
+                tagCategories.push(category);
+                return category.id;
+            };
+            const imported = action.payload.tags.map(({ start, end, label, category, notes }) => createTag(start, end, { label, notes, categoryId: getCategoryId(category) }));
+            if (imported.length === 0) return state;
+            return { ...state, tags: [...state.tags, ...imported], tagCategories };
+        }
+
+        case "RESTORE_SESSION": {
+            if (!state.audioData) return state;
+            const { tags, tagCategories, startPosition } = action.payload;
+            // Saved with a different window width
+            const pixelsPerSecond = clampPixelsPerSecond(action.payload.pixelsPerSecond, state.audioData, state.viewportWidth);
+            return {
+                ...state,
+                tags,
+                tagCategories,
+                pendingTagStart: null,
+                selectedTag: null,
+                startPosition: Math.min(Math.max(startPosition, 0), state.audioData.duration),
+                pixelsPerSecond,
+                scrollLeft: clampScrollLeft(action.payload.scrollLeft, state.audioData.duration * pixelsPerSecond, state.viewportWidth),
+            };
+        }
+
+        case "SELECT_TAG":
+            return { ...state, selectedTag: action.payload.id };
+
+        case "ADD_TAG_CATEGORY":
+            return { ...state, tagCategories: [...state.tagCategories, { id: createId(), ...action.payload }] };
+
+        case "UPDATE_TAG_CATEGORY":
+            return { ...state, tagCategories: state.tagCategories.map((category) => (category.id === action.payload.id ? { ...category, ...action.payload.changes } : category)) };
+
+        case "DELETE_TAG_CATEGORY": {
+            const { id } = action.payload;
+            // Tags of a deleted category become uncategorized rather than disappearing with it
+            const now = Date.now();
             return {
                 ...state,
-                tags: state.tags.filter((_, i) => i !== action.payload.index),
+                tagCategories: state.tagCategories.filter((category) => category.id !== id),
+                tags: state.tags.map((tag) => (tag.categoryId === id ? { ...tag, categoryId: null, modifiedAt: now } : tag)),
             };
+        }
 
         case "CLEAR_PENDING_TAG":
             return { ...state, pendingTagStart: null };
 
-        case "RESIZE":
-            return { ...state, screenWidth: action.payload.screenWidth };
+        case "RESIZE": {
+            const { viewportWidth } = action.payload;
+            if (!state.audioData) return { ...state, viewportWidth };
+            // A view fitted to the window stays fitted, any other zoom level is kept
+            const wasFitted = state.pixelsPerSecond <= getFitPixelsPerSecond(state.audioData.duration, state.viewportWidth) * (1 + 1e-9);
+            const pixelsPerSecond = wasFitted ? getFitPixelsPerSecond(state.audioData.duration, viewportWidth) : clampPixelsPerSecond(state.pixelsPerSecond, state.audioData, viewportWidth);
+            return { ...state, viewportWidth, pixelsPerSecond, scrollLeft: clampScrollLeft(state.scrollLeft, state.audioData.duration * pixelsPerSecond, viewportWidth) };
+        }
+
+        case "ZOOM": {
+            // Keep whatever is under anchorX in place, e.g. the mouse cursor
+            const { factor, anchorX } = action.payload;
+            const anchorTime = (state.scrollLeft + anchorX) / state.pixelsPerSecond;
+            return zoomAround(state, state.pixelsPerSecond * factor, anchorTime, anchorX);
+        }
+
+        case "ZOOM_TO_FIT":
+            if (!state.audioData) return state;
+            return { ...state, pixelsPerSecond: getFitPixelsPerSecond(state.audioData.duration, state.viewportWidth), scrollLeft: 0 };
+
+        case "ZOOM_TO_RANGE": {
+            const { pixelsPerSecond, centerTime } = getRangeZoom(action.payload.start, action.payload.end, state.viewportWidth);
+            return zoomAround(state, pixelsPerSecond, centerTime, state.viewportWidth / 2);
+        }
+
+        case "SCROLL":
+            if (!state.audioData) return state;
+            return { ...state, scrollLeft: clampScrollLeft(action.payload.scrollLeft, state.audioData.duration * state.pixelsPerSecond, state.viewportWidth) };
+
+        case "SCROLL_BY":
+            if (!state.audioData) return state;
+            return { ...state, scrollLeft: clampScrollLeft(state.scrollLeft + action.payload.delta, state.audioData.duration * state.pixelsPerSecond, state.viewportWidth) };
+
+        case "SET_CHANNEL_VIEW":
+            return { ...state, channelView: action.payload.channelView };
+
+        case "SET_DOWNMIX":
+            return { ...state, downmix: action.payload.downmix };
+
+        case "SET_AMPLITUDE_SCALE":
+            return { ...state, amplitudeScale: action.payload.amplitudeScale };
+
+        case "SET_AMPLITUDE_ZOOM":
+            return { ...state, amplitudeZoom: clampAmplitudeZoom(action.payload.amplitudeZoom) };
+
+        case "SET_LANE_HEIGHT":
+            return { ...state, laneHeight: action.payload.laneHeight };
+
+        case "SET_TIME_FORMAT":
+            return { ...state, timeFormat: action.payload.timeFormat };
+
+        case "SET_DISPLAY_MODE":
+            return { ...state, displayMode: action.payload.displayMode };
+
+        case "SET_SPECTROGRAM_SETTINGS":
+            return { ...state, spectrogram: { ...state.spectrogram, ...action.payload } };
+
+        case "SET_LOOP": {
+            const { start, end, tagId } = action.payload;
+            if (end <= start) return state;
+            return { ...state, loop: { start, end, tagId }, loopEnabled: true };
+        }
+
+        case "SET_LOOP_POINT": {
+            // Like A/B repeat on a tape deck: without a loop yet the other end is the start or end of the file
+            if (!state.audioData) return state;
+            const { point, time } = action.payload;
+            const current = resolveLoopRange(state.loop, state.tags) ?? { start: 0, end: state.audioData.duration };
+            const moved = { ...current, [point]: time };
+            const start = Math.min(moved.start, moved.end);
+            const end = Math.max(moved.start, moved.end);
+            if (end <= start) return state;
+            return { ...state, loop: { start, end, tagId: null }, loopEnabled: true };
+        }
+
+        case "SET_LOOP_ENABLED":
+            return { ...state, loopEnabled: action.payload.enabled && state.loop !== null };
+
+        case "SET_LOOP_PADDING":
+            return { ...state, loopPreRoll: action.payload.preRoll ?? state.loopPreRoll, loopPostRoll: action.payload.postRoll ?? state.loopPostRoll };
+
+        case "CLEAR_LOOP":
+            return { ...state, loop: null, loopEnabled: false };
+
+        case "SET_PLAYBACK_RATE":
+            return { ...state, playbackRate: action.payload.rate };
+
+        case "SET_PRESERVE_PITCH":
+            return { ...state, preservePitch: action.payload.preservePitch };
 
         default:
             return state;
     }
 }
 
+// The part of the state undo and redo bring back: annotations, the start position and the zoom level
+type HistorySnapshot = Pick<WaveformState, "tags" | "pendingTagStart" | "tagCategories" | "startPosition" | "pixelsPerSecond" | "scrollLeft">;
+
+export interface WaveformHistory {
+    present: WaveformState;
+    past: HistorySnapshot[];
+    future: HistorySnapshot[];
+    lastEdit: { key: string; time: number } | null;
+}
+
+// User edits worth undoing. Playback, dragging the playhead, scrolling and display settings are left out.
+const RECORDED_ACTIONS = new Set<WaveformAction["type"]>(["TOGGLE_TAG", "ADD_TAG", "UPDATE_TAG", "DELETE_TAG", "IMPORT_TAGS", "RESTORE_SESSION", "CLEAR_PENDING_TAG", "ADD_TAG_CATEGORY", "UPDATE_TAG_CATEGORY", "DELETE_TAG_CATEGORY", "SET_START_POSITION", "ZOOM", "ZOOM_TO_FIT", "ZOOM_TO_RANGE"]);
+const MAX_HISTORY = 200;
+// Repeats of the same edit closer together than this become one step, e.g. typing a label, dragging an edge or wheel zooming
+const COALESCE_MS = 1000;
+
+function takeSnapshot({ tags, pendingTagStart, tagCategories, startPosition, pixelsPerSecond, scrollLeft }: WaveformState): HistorySnapshot {
+    return { tags, pendingTagStart, tagCategories, startPosition, pixelsPerSecond, scrollLeft };
+}
+
+function restoreSnapshot(state: WaveformState, snapshot: HistorySnapshot): WaveformState {
+    const restored = { ...state, ...snapshot };
+    // The window may have been resized since
+    if (!state.audioData) return restored;
+    const pixelsPerSecond = clampPixelsPerSecond(snapshot.pixelsPerSecond, state.audioData, state.viewportWidth);
+    return { ...restored, pixelsPerSecond, scrollLeft: clampScrollLeft(snapshot.scrollLeft, state.audioData.duration * pixelsPerSecond, state.viewportWidth) };
+}
+
+// Edits with the same key can be coalesced
+function getEditKey(action: WaveformAction): string {
+    switch (action.type) {
+        case "UPDATE_TAG":
+        case "UPDATE_TAG_CATEGORY":
+            return `${action.type}:${action.payload.id}:${Object.keys(action.payload.changes).sort().join(",")}`;
+        default:
+            return action.type;
+    }
+}
+
+function isSameSnapshot(a: HistorySnapshot, b: HistorySnapshot): boolean {
+    return (Object.keys(a) as Array<keyof HistorySnapshot>).every((key) => a[key] === b[key]);
+}
+
+export function historyReducer(history: WaveformHistory, action: WaveformAction): WaveformHistory {
+    const { present, past, future } = history;
+
+    switch (action.type) {
+        case "UNDO": {
+            const previous = past[past.length - 1];
+            if (!previous) return history;
+            return { present: restoreSnapshot(present, previous), past: past.slice(0, -1), future: [takeSnapshot(present), ...future], lastEdit: null };
+        }
+
+        case "REDO": {
+            const next = future[0];
+            if (!next) return history;
+            return { present: restoreSnapshot(present, next), past: [...past, takeSnapshot(present)], future: future.slice(1), lastEdit: null };
+        }
+
+        case "FILE_LOAD_SUCCESS":
+            // History belongs to the file it was made on
+            return { present: waveformReducer(present, action), past: [], future: [], lastEdit: null };
+    }
+
+    const next = waveformReducer(present, action);
+    if (next === present || !RECORDED_ACTIONS.has(action.type)) {
+        return next === present ? history : { ...history, present: next };
+    }
+
+    const before = takeSnapshot(present);
+    if (isSameSnapshot(before, takeSnapshot(next))) {
+        return { ...history, present: next };
+    }
+
+    const key = getEditKey(action);
+    const now = Date.now();
+    const coalesce = history.lastEdit !== null && history.lastEdit.key === key && now - history.lastEdit.time < COALESCE_MS;
+    return {
+        present: next,
+        past: coalesce ? past : [...past, before].slice(-MAX_HISTORY),
+        future: [],
+        lastEdit: { key, time: now },
+    };
+}
+
 export function useWaveformReducer() {
-    return useReducer(waveformReducer, initialState);
+    const [history, dispatch] = useReducer(historyReducer, { present: initialState, past: [], future: [], lastEdit: null });
+    return [history.present, dispatch, { canUndo: history.past.length > 0, canRedo: history.future.length > 0 }] as const;
 }
@@ -1,7 +1,158 @@
+export type SampleEncoding = "pcm" | "float" | "alaw" | "mulaw";
+
+export interface WavFormat {
+    formatTag: number; // Tag as stored in the fmt chunk (0xFFFE for WAVE_FORMAT_EXTENSIBLE)
+    encoding: SampleEncoding;
+    bitsPerSample: number; // Container size of one sample
+    validBitsPerSample: number;
+    blockAlign: number;
+    channelMask: number; // Speaker positions from the extensible header, 0 if not given
+    subFormat: string | null; // Sub-format GUID from the extensible header
+}
+
+export interface CuePoint {
+    id: number;
+    position: number; // Sample frame
+    length: number; // Region length in frames from an ltxt entry, 0 for a plain marker
+    label: string;
+    note: string;
+}
+
+export interface BroadcastExtension {
+    description: string;
+    originator: string;
+    originatorReference: string;
+    originationDate: string;
+    originationTime: string;
+    timeReference: number; // Samples since midnight
+    version: number;
+    umid: string;
+    loudnessValue: number | null; // LUFS, bext version 2 and later
+    loudnessRange: number | null;
+    maxTruePeakLevel: number | null;
+    maxMomentaryLoudness: number | null;
+    maxShortTermLoudness: number | null;
+    codingHistory: string;
+}
+
+export interface IxmlMetadata {
+    project: string;
+    scene: string;
+    take: string;
+    tape: string;
+    note: string;
+    circled: boolean;
+    trackNames: string[];
+    xml: string;
+}
+
+export interface WavMetadata {
+    cuePoints: CuePoint[];
+    info: Array<{ id: string; value: string }>; // LIST/INFO entries in file order
+    bext: BroadcastExtension | null;
+    ixml: IxmlMetadata | null;
+}
+
+export interface RiffChunk {
+    id: string;
+    listType: string | null; // Form type of LIST chunks, e.g. "INFO" or "adtl"
+    offset: number; // Byte offset of the chunk header
+    size: number; // Payload size, without header and pad byte
+}
+
+export interface PeakLevel {
+    samplesPerPeak: number;
+    length: number;
+    min: Float32Array;
+    max: Float32Array;
+    rms: Float32Array;
+}
+
+export interface WaveformPeaks {
+    levels: [PeakLevel, ...PeakLevel[]]; // Finest first, each level summarizes PEAK_LEVEL_FACTOR entries of the one before
+}
+
+export type DownmixMode = "average" | "left" | "right" | "mid" | "side";
+
+export type ChannelView = "mixed" | "lanes";
+
+export type AmplitudeScale = "linear" | "db";
+
+export type TimeFormat = "clock" | "smpte-23.976" | "smpte-24" | "smpte-25" | "smpte-29.97df" | "smpte-30" | "samples" | "seconds";
+
+export type DisplayMode = "waveform" | "spectrogram" | "both";
+
+export type WindowFunction = "hann" | "hamming" | "blackman" | "rectangular";
+
+export type FrequencyScale = "linear" | "log" | "mel";
+
+export type ColorMap = "viridis" | "magma" | "grayscale";
+
+export interface SpectrogramSettings {
+    fftSize: number; // Power of two
+    windowFunction: WindowFunction;
+    overlap: number; // Fraction of a window shared with the next one, 0 to below 1
+    frequencyScale: FrequencyScale;
+    colorMap: ColorMap;
+}
+
+export interface TagCategory {
+    id: string;
+    name: string;
+    color: string; // CSS colour, hex from the colour picker
+}
+
+export interface Tag {
+    id: string; // Stable across edits, unlike the position in the list
+    start: number; // Seconds
+    end: number;
+    label: string;
+    categoryId: string | null;
+    notes: string;
+    createdAt: number; // Epoch milliseconds
+    modifiedAt: number;
+}
+
+// Stopping returns to the start marker, pausing keeps the position to resume from
+export type TransportState = "stopped" | "playing" | "paused";
+
+export interface LoopRange {
+    start: number; // Seconds, without pre- and post-roll
+    end: number;
+    tagId: string | null; // Tag the loop was set from, its edits move the loop along
+}
+
+export interface MixPeaks {
+    average: WaveformPeaks;
+    mid: WaveformPeaks; // (L + R) / 2
+    side: WaveformPeaks; // (L - R) / 2
+}
+
 export interface AudioData {
-    samples: Float32Array;
+    channelPeaks: WaveformPeaks[]; // One per channel, in file order
+    mixPeaks: MixPeaks;
+    sourceFormat: string; // Container/codec detected from the file signature, e.g. "WAV" or "MP3"
     sampleRate: number;
     channels: number;
     duration: number;
-    audioBuffer: ArrayBuffer; // Store original file for playback
+    frameCount: number;
+    format: WavFormat;
+    metadata: WavMetadata;
+    chunks: RiffChunk[]; // Layout of the original file in file order, empty for non-WAV sources
+    file: Blob; // Original file, read in slices instead of being copied into memory
+    dataOffset: number; // Byte offset of the sample data inside the file
+    dataSize: number;
+}
+
+// Annotations and view of one audio file, as stored in IndexedDB
+export interface SavedSession {
+    key: string; // Content hash, size and name of the audio file
+    fileName: string;
+    fileSize: number;
+    savedAt: number; // Epoch milliseconds
+    tags: Tag[];
+    tagCategories: TagCategory[];
+    startPosition: number;
+    pixelsPerSecond: number;
+    scrollLeft: number;
 }
@@ -0,0 +1,58 @@
+import type { AmplitudeScale } from "../types";
+
+// Floor of the dB scale, anything quieter sits on the center line
+export const DB_RANGE = 60;
+export const MAX_AMPLITUDE_ZOOM = 256;
+// Multiplier of one vertical zoom step, 6 dB
+export const AMPLITUDE_ZOOM_STEP = 2;
+export const LANE_HEIGHTS = [64, 96, 128, 192, 256, 384];
+// Ruler spacings on the dB scale, the smallest one that fits is used
+const DB_TICK_STEPS = [3, 6, 10, 20, 30];
+
+// Vertical zoom works as display gain in both scales, the top of a lane is 1 / zoom (or its level in dBFS)
+export interface AmplitudeView {
+    scale: AmplitudeScale;
+    zoom: number;
+}
+
+export function clampAmplitudeZoom(zoom: number): number {
+    return Math.min(Math.max(zoom, 1), MAX_AMPLITUDE_ZOOM);
+}
+
+// Signed sample value to a lane position, -1 at the bottom edge and 1 at the top, clipped to the lane
+export function amplitudeToPosition(value: number, { scale, zoom }: AmplitudeView): number {
+    const magnitude = Math.abs(value) * zoom;
+    const position = scale === "db" ? (magnitude > 0 ? (20 * Math.log10(magnitude) + DB_RANGE) / DB_RANGE : 0) : magnitude;
+    return Math.sign(value) * Math.min(Math.max(position, 0), 1);
+}
+
+function niceStep(rough: number): number {
+    const power = 10 ** Math.floor(Math.log10(rough));
+    const fraction = rough / power;
+    return (fraction <= 1 ? 1 : fraction <= 2 ? 2 : fraction <= 5 ? 5 : 10) * power;
+}
+
+// Ruler ticks for the upper half of a lane, the lower half mirrors them
+export function getAmplitudeTicks(view: AmplitudeView, halfHeight: number): Array<{ position: number; label: string }> {
+    // Roughly one label per 24px keeps them from overlapping
+    const tickCount = Math.max(1, Math.floor(halfHeight / 24));
+    const ticks: Array<{ position: number; label: string }> = [];
+
+    if (view.scale === "db") {
+        const topDb = -20 * Math.log10(view.zoom);
+        const step = DB_TICK_STEPS.find((candidate) => candidate >= DB_RANGE / tickCount) ?? DB_RANGE / 2;
+        for (let db = Math.floor(topDb / step) * step; db > topDb - DB_RANGE; db -= step) {
+            ticks.push({ position: amplitudeToPosition(10 ** (db / 20), view), label: `${Math.round(db)}` });
+        }
+        ticks.push({ position: 0, label: "-∞" });
+        return ticks;
+    }
+
+    const top = 1 / view.zoom;
+    const step = niceStep(top / tickCount);
+    const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+    for (let value = 0; value <= top * (1 + 1e-9); value += step) {
+        ticks.push({ position: amplitudeToPosition(value, view), label: value.toFixed(decimals) });
+    }
+    return ticks;
+}
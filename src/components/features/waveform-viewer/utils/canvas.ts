@@ -1,17 +1,309 @@
-const MINUTES_BASE = 60; // 60 minutes = full width
-
-export function calculateCanvasWidth(duration: number, screenWidth: number): number {
-    // 60 minutes = available container width, scale proportionally for longer/shorter audio
-    // Account for main container padding (16px on each side = 32px total)
-    // and canvas wrapper margins (16px on each side = 32px total)
-    const totalHorizontalSpace = 64; // 32px main container padding + 32px canvas wrapper margins
-    const availableWidth = Math.max(1, screenWidth - totalHorizontalSpace);
-    return Math.ceil((duration / MINUTES_BASE) * availableWidth);
+import type { FrequencyScale, TimeFormat, WaveformPeaks } from "../types";
+import { type AmplitudeView, amplitudeToPosition, getAmplitudeTicks } from "./amplitude";
+import { selectPeakLevel, summarizePeakLevel } from "./peaks";
+import { getFrequencyTicks } from "./spectrogram";
+import { formatTimecode, getRulerStep } from "./time";
+
+// Pixels between samples before each one gets a dot
+const MIN_SAMPLE_DOT_SPACING = 6;
+
+export const AMPLITUDE_RULER_WIDTH = 36;
+export const TIME_RULER_HEIGHT = 24;
+// Room for the widest timecode label plus a gap
+const TIME_RULER_LABEL_SPACING = 96;
+// Thickness of the loop bar along the top of the view
+const LOOP_BAR_HEIGHT = 6;
+
+export interface PixelRange {
+    start: number;
+    end: number;
+}
+
+// Draw one waveform lane, one vertical min/max line per pixel (Audacity style) with the RMS band on top.
+// The range is in content pixels and is drawn at the canvas origin, so huge zoomed-in offsets never reach the canvas.
+export function drawPeaksLane(ctx: CanvasRenderingContext2D, peaks: WaveformPeaks, framesPerPixel: number, top: number, height: number, range: PixelRange, amplitude: AmplitudeView, rmsColor?: string) {
+    const centerY = top + height / 2;
+    const halfHeight = height / 2;
+    const level = selectPeakLevel(peaks, framesPerPixel);
+    const start = Math.max(0, Math.floor(range.start));
+    const end = Math.ceil(range.end);
+    const rmsTop = new Float32Array(Math.max(0, end - start));
+    const rmsBottom = new Float32Array(Math.max(0, end - start));
+
+    ctx.beginPath();
+    for (let i = start; i < end; i++) {
+        const { min, max, rms } = summarizePeakLevel(level, i * framesPerPixel, (i + 1) * framesPerPixel);
+        const x = i - range.start + 0.5;
+        ctx.moveTo(x, centerY - amplitudeToPosition(min, amplitude) * halfHeight);
+        ctx.lineTo(x, centerY - amplitudeToPosition(max, amplitude) * halfHeight);
+        // Keep the RMS band inside the peaks of the same pixel
+        rmsTop[i - start] = Math.min(rms, max);
+        rmsBottom[i - start] = Math.max(-rms, min);
+    }
+    ctx.stroke();
+
+    if (!rmsColor) return;
+    ctx.save();
+    ctx.strokeStyle = rmsColor;
+    ctx.beginPath();
+    for (let i = start; i < end; i++) {
+        const high = rmsTop[i - start] ?? 0;
+        const low = rmsBottom[i - start] ?? 0;
+        if (high <= low) continue;
+        ctx.moveTo(i - range.start + 0.5, centerY - amplitudeToPosition(low, amplitude) * halfHeight);
+        ctx.lineTo(i - range.start + 0.5, centerY - amplitudeToPosition(high, amplitude) * halfHeight);
+    }
+    ctx.stroke();
+    ctx.restore();
+}
+
+// Sample-level lane: straight lines between samples, plus a dot on each once they're far enough apart
+export function drawSamplesLane(ctx: CanvasRenderingContext2D, samples: Float32Array, startFrame: number, pixelsPerFrame: number, top: number, height: number, range: PixelRange, amplitude: AmplitudeView) {
+    const centerY = top + height / 2;
+    const halfHeight = height / 2;
+    // One sample beyond each edge so the lines run off the canvas instead of stopping short
+    const first = Math.max(startFrame, Math.floor(range.start / pixelsPerFrame) - 1);
+    const last = Math.min(startFrame + samples.length, Math.ceil(range.end / pixelsPerFrame) + 2);
+    if (last <= first) return;
+
+    const pointX = (frame: number) => frame * pixelsPerFrame - range.start;
+    const pointY = (frame: number) => centerY - amplitudeToPosition(samples[frame - startFrame] ?? 0, amplitude) * halfHeight;
+
+    ctx.beginPath();
+    ctx.moveTo(pointX(first), pointY(first));
+    for (let frame = first + 1; frame < last; frame++) {
+        ctx.lineTo(pointX(frame), pointY(frame));
+    }
+    ctx.stroke();
+
+    if (pixelsPerFrame < MIN_SAMPLE_DOT_SPACING) return;
+    ctx.fillStyle = ctx.strokeStyle;
+    for (let frame = first; frame < last; frame++) {
+        ctx.fillRect(pointX(frame) - 1.5, pointY(frame) - 1.5, 3, 3);
+    }
+}
+
+// Amplitude ruler along the left edge of one lane, on a backing strip so it stays readable over the waveform
+export function drawAmplitudeRuler(ctx: CanvasRenderingContext2D, top: number, height: number, amplitude: AmplitudeView, colors: { background: string; text: string }) {
+    const centerY = top + height / 2;
+    const halfHeight = height / 2;
+
+    ctx.save();
+    ctx.fillStyle = colors.background;
+    ctx.globalAlpha = 0.85;
+    ctx.fillRect(0, top, AMPLITUDE_RULER_WIDTH, height);
+    ctx.globalAlpha = 1;
+
+    ctx.strokeStyle = colors.text;
+    ctx.fillStyle = colors.text;
+    ctx.lineWidth = 1;
+    ctx.font = "10px sans-serif";
+    ctx.textAlign = "right";
+    ctx.textBaseline = "middle";
+    ctx.beginPath();
+    for (const { position, label } of getAmplitudeTicks(amplitude, halfHeight)) {
+        const marks =
+            position === 0
+                ? [{ y: centerY, text: label }]
+                : [
+                      { y: centerY - position * halfHeight, text: label },
+                      // Negative half: linear values flip sign, dB levels read the same
+                      { y: centerY + position * halfHeight, text: amplitude.scale === "linear" ? `-${label}` : label },
+                  ];
+        for (const { y, text } of marks) {
+            const tickY = Math.round(y) + 0.5;
+            ctx.moveTo(AMPLITUDE_RULER_WIDTH - 4, tickY);
+            ctx.lineTo(AMPLITUDE_RULER_WIDTH, tickY);
+            // Keep edge labels inside the lane
+            ctx.fillText(text, AMPLITUDE_RULER_WIDTH - 6, Math.min(Math.max(y, top + 6), top + height - 6));
+        }
+    }
+    ctx.stroke();
+    ctx.restore();
+}
+
+// A tag as a translucent band over the full height, edges as lines and its label in the top-left corner.
+// x0 and x1 are viewport pixels and may lie outside the canvas.
+export function drawTagRegion(ctx: CanvasRenderingContext2D, x0: number, x1: number, height: number, label: string, color: string, selected: boolean) {
+    ctx.save();
+    ctx.fillStyle = color;
+    ctx.globalAlpha = selected ? 0.3 : 0.15;
+    ctx.fillRect(x0, 0, x1 - x0, height);
+
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = selected ? 2 : 1;
+    ctx.beginPath();
+    for (const x of [x0, x1]) {
+        ctx.moveTo(Math.round(x) + 0.5, 0);
+        ctx.lineTo(Math.round(x) + 0.5, height);
+    }
+    ctx.stroke();
+
+    if (label) {
+        ctx.font = selected ? "bold 11px sans-serif" : "11px sans-serif";
+        ctx.textBaseline = "top";
+        // Keep the label readable while the start edge is scrolled off to the left
+        const labelX = Math.max(x0, 0) + 4;
+        const labelWidth = ctx.measureText(label).width;
+        if (labelX + labelWidth < x1) {
+            ctx.fillStyle = color;
+            ctx.fillText(label, labelX, height - 16);
+        }
+    }
+    ctx.restore();
+}
+
+// Loop range as a bar along the top, fainter over the pre- and post-roll. While looping, the rest of the view is shaded.
+export function drawLoopRegion(ctx: CanvasRenderingContext2D, range: PixelRange, padded: PixelRange, width: number, height: number, colors: { loop: string; shade: string }, active: boolean) {
+    ctx.save();
+    if (active) {
+        ctx.fillStyle = colors.shade;
+        ctx.globalAlpha = 0.5;
+        ctx.fillRect(0, 0, Math.max(0, padded.start), height);
+        ctx.fillRect(padded.end, 0, Math.max(0, width - padded.end), height);
+    }
+
+    ctx.fillStyle = colors.loop;
+    ctx.globalAlpha = active ? 0.4 : 0.2;
+    ctx.fillRect(padded.start, 0, padded.end - padded.start, LOOP_BAR_HEIGHT);
+    ctx.globalAlpha = active ? 1 : 0.5;
+    ctx.fillRect(range.start, 0, range.end - range.start, LOOP_BAR_HEIGHT);
+
+    // Where playback wraps around
+    ctx.strokeStyle = colors.loop;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (const x of [padded.start, padded.end]) {
+        ctx.moveTo(Math.round(x) + 0.5, 0);
+        ctx.lineTo(Math.round(x) + 0.5, height);
+    }
+    ctx.stroke();
+    ctx.restore();
+}
+
+// Paint spectrogram columns left to right from x, each columnWidth pixels wide. rowBins holds the FFT bin range of each
+// pixel row and colorTable the RGB of each level, both prepared once per layout rather than per column.
+export function drawSpectrogramColumns(ctx: CanvasRenderingContext2D, columns: { columnCount: number; binCount: number; levels: Uint8Array }, x: number, columnWidth: number, top: number, rowBins: Int32Array, colorTable: Uint8ClampedArray) {
+    const { columnCount, binCount, levels } = columns;
+    const rowCount = rowBins.length / 2;
+    const image = new ImageData(columnCount, rowCount);
+
+    for (let column = 0; column < columnCount; column++) {
+        const offset = column * binCount;
+        for (let row = 0; row < rowCount; row++) {
+            // Rows spanning several bins show the loudest of them
+            let level = 0;
+            for (let bin = rowBins[row * 2] ?? 0; bin <= (rowBins[row * 2 + 1] ?? 0); bin++) {
+                level = Math.max(level, levels[offset + bin] ?? 0);
+            }
+            const pixel = (row * columnCount + column) * 4;
+            image.data[pixel] = colorTable[level * 3] ?? 0;
+            image.data[pixel + 1] = colorTable[level * 3 + 1] ?? 0;
+            image.data[pixel + 2] = colorTable[level * 3 + 2] ?? 0;
+            image.data[pixel + 3] = 255;
+        }
+    }
+
+    // putImageData ignores the context transform, so the image is stretched into place through a scratch canvas
+    const scratch = new OffscreenCanvas(columnCount, rowCount);
+    scratch.getContext("2d")?.putImageData(image, 0, 0);
+    ctx.save();
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(scratch, x, top, columnCount * columnWidth, rowCount);
+    ctx.restore();
+}
+
+export function drawFrequencyRuler(ctx: CanvasRenderingContext2D, top: number, height: number, scale: FrequencyScale, sampleRate: number, fftSize: number, colors: { background: string; text: string }) {
+    ctx.save();
+    ctx.fillStyle = colors.background;
+    ctx.globalAlpha = 0.85;
+    ctx.fillRect(0, top, AMPLITUDE_RULER_WIDTH, height);
+    ctx.globalAlpha = 1;
+
+    ctx.strokeStyle = colors.text;
+    ctx.fillStyle = colors.text;
+    ctx.lineWidth = 1;
+    ctx.font = "10px sans-serif";
+    ctx.textAlign = "right";
+    ctx.textBaseline = "middle";
+    ctx.beginPath();
+    for (const { position, label } of getFrequencyTicks(scale, sampleRate, fftSize, height)) {
+        const y = top + (1 - position) * height;
+        const tickY = Math.round(y) + 0.5;
+        ctx.moveTo(AMPLITUDE_RULER_WIDTH - 4, tickY);
+        ctx.lineTo(AMPLITUDE_RULER_WIDTH, tickY);
+        ctx.fillText(label, AMPLITUDE_RULER_WIDTH - 6, Math.min(Math.max(y, top + 6), top + height - 6));
+    }
+    ctx.stroke();
+    ctx.restore();
+}
+
+// Time ruler across the viewport, tick spacing follows the zoom level and the time format
+export function drawTimeRuler(ctx: CanvasRenderingContext2D, view: { width: number; scrollLeft: number; pixelsPerSecond: number; duration: number }, format: TimeFormat, sampleRate: number, colors: { background: string; text: string }) {
+    const { width, scrollLeft, pixelsPerSecond, duration } = view;
+    const { major, minor } = getRulerStep(format, sampleRate, pixelsPerSecond, TIME_RULER_LABEL_SPACING);
+
+    ctx.fillStyle = colors.background;
+    ctx.fillRect(0, 0, width, TIME_RULER_HEIGHT);
+    ctx.strokeStyle = colors.text;
+    ctx.fillStyle = colors.text;
+    ctx.lineWidth = 1;
+    ctx.font = "10px sans-serif";
+    ctx.textAlign = "left";
+    ctx.textBaseline = "top";
+
+    const startTime = scrollLeft / pixelsPerSecond;
+    const endTime = Math.min(duration, (scrollLeft + width) / pixelsPerSecond);
+    ctx.beginPath();
+    // Count in whole minor steps so ticks don't drift from accumulated rounding
+    for (let index = Math.floor(startTime / minor); index * minor <= endTime; index++) {
+        const time = index * minor;
+        const x = Math.round(time * pixelsPerSecond - scrollLeft) + 0.5;
+        const isMajor = Math.abs(time / major - Math.round(time / major)) < 1e-6;
+        ctx.moveTo(x, TIME_RULER_HEIGHT);
+        ctx.lineTo(x, isMajor ? 0 : TIME_RULER_HEIGHT - 5);
+        if (isMajor) {
+            ctx.fillText(formatTimecode(time, format, sampleRate), x + 3, 3);
+        }
+    }
+    ctx.stroke();
 }
 
+// Size a canvas for the device pixel ratio and return a context drawing in CSS pixels.
+// Resizing clears the canvas, so it only happens when the size actually changes.
+export function prepareCanvas(canvas: HTMLCanvasElement, displayWidth: number, displayHeight: number): CanvasRenderingContext2D | null {
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+
+    const dpr = window.devicePixelRatio || 1;
+    const width = Math.max(1, Math.round(displayWidth * dpr));
+    const height = Math.max(1, Math.round(displayHeight * dpr));
+    if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+        canvas.style.width = `${displayWidth}px`;
+        canvas.style.height = `${displayHeight}px`;
+    }
+
+    // Reset transform and scale context for high DPI displays
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.scale(dpr, dpr);
+    return ctx;
+}
+
+export function getThemeColor(variable: string, fallback: string): string {
+    return cssColorToRgb(getComputedStyle(document.documentElement).getPropertyValue(variable).trim() || fallback);
+}
+
+// Conversions go through a scratch canvas, too slow to repeat on every animation frame
+const rgbCache = new Map<string, string>();
+
 export function cssColorToRgb(cssColor: string): string {
     // Remove parentheses if present (for oklch values)
     const cleanColor = cssColor.trim();
+    const cached = rgbCache.get(cleanColor);
+    if (cached) return cached;
 
     // Try to use the color directly first (modern browsers support oklch in canvas)
     try {
@@ -28,7 +320,9 @@ export function cssColorToRgb(cssColor: string): string {
             }
             tempCtx.fillRect(0, 0, 1, 1);
             const data = tempCtx.getImageData(0, 0, 1, 1).data;
-            return `rgb(${data[0]}, ${data[1]}, ${data[2]})`;
+            const rgb = `rgb(${data[0]}, ${data[1]}, ${data[2]})`;
+            rgbCache.set(cleanColor, rgb);
+            return rgb;
         }
     } catch (_e) {
         // Fallback if conversion fails
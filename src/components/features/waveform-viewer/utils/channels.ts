@@ -0,0 +1,37 @@
+import type { AudioData } from "../types";
+import { AMBISONIC_B_FORMAT_GUID_TAIL } from "./wavParser";
+
+// Speaker position bits of WAVEFORMATEXTENSIBLE.dwChannelMask, in channel order
+const SPEAKER_LABELS = ["L", "R", "C", "LFE", "Ls", "Rs", "Lc", "Rc", "Cs", "Sl", "Sr", "Tc", "Tfl", "Tfc", "Tfr", "Tbl", "Tbc", "Tbr"];
+
+// First-order B-format channels, higher orders fall back to ACN numbers
+const AMBISONIC_LABELS = ["W", "X", "Y", "Z"];
+
+export function getChannelLabels({ channels, format, metadata }: Pick<AudioData, "channels" | "format" | "metadata">): string[] {
+    // Recorders name their tracks in iXML, which beats any positional guess
+    const trackNames = metadata.ixml?.trackNames ?? [];
+    if (trackNames.length === channels && trackNames.every(Boolean)) {
+        return trackNames;
+    }
+
+    if (format.subFormat?.endsWith(AMBISONIC_B_FORMAT_GUID_TAIL)) {
+        return Array.from({ length: channels }, (_, ch) => AMBISONIC_LABELS[ch] ?? `ACN ${ch}`);
+    }
+
+    if (format.channelMask !== 0) {
+        const labels: string[] = [];
+        for (let bit = 0; bit < SPEAKER_LABELS.length && labels.length < channels; bit++) {
+            if (format.channelMask & (1 << bit)) {
+                labels.push(SPEAKER_LABELS[bit] ?? `Ch ${labels.length + 1}`);
+            }
+        }
+        while (labels.length < channels) {
+            labels.push(`Ch ${labels.length + 1}`);
+        }
+        return labels;
+    }
+
+    if (channels === 1) return ["Mono"];
+    if (channels === 2) return ["L", "R"];
+    return Array.from({ length: channels }, (_, ch) => `Ch ${ch + 1}`);
+}
@@ -0,0 +1,121 @@
+import type { AudioData } from "../types";
+import type { DecoderWorkerRequest } from "../workers/decoder.worker";
+import { readFourCC, readRange } from "./riff";
+import type { ParseProgress } from "./wavParser";
+
+// Enough bytes for every signature below
+const SIGNATURE_SIZE = 64;
+
+export interface DecodeContext {
+    signal: AbortSignal;
+    onProgress: (progress: ParseProgress) => void;
+    runWorker: (request: DecoderWorkerRequest, transfer?: Transferable[]) => Promise<AudioData>;
+}
+
+export interface AudioDecoder {
+    name: string;
+    // Returns the detected format name, or null if this decoder can't handle the file
+    detect: (header: DataView) => string | null;
+    decode: (file: Blob, sourceFormat: string, context: DecodeContext) => Promise<AudioData>;
+}
+
+function readAscii(view: DataView, offset: number, length: number): string {
+    let text = "";
+    for (let i = offset; i < Math.min(offset + length, view.byteLength); i++) {
+        text += String.fromCharCode(view.getUint8(i));
+    }
+    return text;
+}
+
+function detectWav(header: DataView): string | null {
+    if (header.byteLength < 12) return null;
+    const riff = readFourCC(header, 0);
+    return (riff === "RIFF" || riff === "RF64" || riff === "BW64") && readFourCC(header, 8) === "WAVE" ? "WAV" : null;
+}
+
+function detectCompressed(header: DataView): string | null {
+    if (header.byteLength < 4) return null;
+    const magic = readFourCC(header, 0);
+    const byte0 = header.getUint8(0);
+    const byte1 = header.getUint8(1);
+
+    if (magic === "fLaC") return "FLAC";
+    if (magic === "OggS") {
+        // First page carries the codec identification header
+        if (readAscii(header, 28, 8) === "OpusHead") return "Opus";
+        if (readAscii(header, 29, 6) === "vorbis") return "Vorbis";
+        if (readAscii(header, 29, 4) === "FLAC") return "FLAC";
+        return "Ogg";
+    }
+    if (header.byteLength >= 12 && readFourCC(header, 4) === "ftyp") {
+        return readFourCC(header, 8).startsWith("M4A") ? "M4A" : "MP4";
+    }
+    if (magic === "FORM" && header.byteLength >= 12 && ["AIFF", "AIFC"].includes(readFourCC(header, 8))) return "AIFF";
+    if (magic === "caff") return "CAF";
+    if (byte0 === 0x1a && byte1 === 0x45 && header.getUint8(2) === 0xdf && header.getUint8(3) === 0xa3) return "WebM";
+    if (readAscii(header, 0, 3) === "ID3") return "MP3";
+    // MPEG audio frame sync; layer bits 00 mean an ADTS (AAC) stream instead
+    if (byte0 === 0xff && (byte1 & 0xe0) === 0xe0) {
+        return (byte1 & 0x06) === 0 ? "AAC" : "MP3";
+    }
+    return null;
+}
+
+function rejectOnAbort(signal: AbortSignal): Promise<never> {
+    return new Promise((_, reject) => {
+        signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+    });
+}
+
+export const wavDecoder: AudioDecoder = {
+    name: "WAV parser",
+    detect: detectWav,
+    decode: (file, _sourceFormat, context) => context.runWorker({ type: "wav", file }),
+};
+
+// Compressed formats go through the browser's own codecs; peaks are still built in the worker
+export const webAudioDecoder: AudioDecoder = {
+    name: "Web Audio",
+    detect: detectCompressed,
+    decode: async (file, sourceFormat, context) => {
+        // biome-ignore lint/suspicious/noExplicitAny: <webkitAudioContext is Safari-only>
+        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+        let audioBuffer: AudioBuffer;
+        try {
+            audioBuffer = await Promise.race([file.arrayBuffer().then((buffer) => audioContext.decodeAudioData(buffer)), rejectOnAbort(context.signal)]);
+        } catch (error) {
+            if (context.signal.aborted) throw error;
+            throw new Error(`The browser could not decode this ${sourceFormat} file`);
+        } finally {
+            audioContext.close();
+        }
+
+        const channelData = Array.from({ length: audioBuffer.numberOfChannels }, (_, ch) => {
+            const data = new Float32Array(audioBuffer.length);
+            audioBuffer.copyFromChannel(data, ch);
+            return data;
+        });
+        return context.runWorker(
+            { type: "pcm", file, sourceFormat, sampleRate: audioBuffer.sampleRate, channelData },
+            channelData.map((data) => data.buffer)
+        );
+    },
+};
+
+// Checked in order, the first decoder recognizing the signature wins
+const decoders: AudioDecoder[] = [wavDecoder, webAudioDecoder];
+
+export function registerDecoder(decoder: AudioDecoder) {
+    decoders.unshift(decoder);
+}
+
+export async function findDecoder(file: Blob): Promise<{ decoder: AudioDecoder; sourceFormat: string } | null> {
+    const header = await readRange(file, 0, SIGNATURE_SIZE);
+    for (const decoder of decoders) {
+        const sourceFormat = decoder.detect(header);
+        if (sourceFormat) {
+            return { decoder, sourceFormat };
+        }
+    }
+    return null;
+}
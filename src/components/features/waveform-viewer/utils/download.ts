@@ -0,0 +1,14 @@
+export function downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Give the browser a moment to start the download before releasing the Blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function replaceExtension(fileName: string, suffix: string): string {
+    const dot = fileName.lastIndexOf(".");
+    return `${dot > 0 ? fileName.slice(0, dot) : fileName}${suffix}`;
+}
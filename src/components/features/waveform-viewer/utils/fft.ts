@@ -0,0 +1,63 @@
+import type { WindowFunction } from "../types";
+
+export function createWindow(type: WindowFunction, size: number): Float32Array {
+    const window = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+        const phase = (2 * Math.PI * i) / (size - 1);
+        switch (type) {
+            case "hann":
+                window[i] = 0.5 - 0.5 * Math.cos(phase);
+                break;
+            case "hamming":
+                window[i] = 0.54 - 0.46 * Math.cos(phase);
+                break;
+            case "blackman":
+                window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+                break;
+            default:
+                window[i] = 1;
+        }
+    }
+    return window;
+}
+
+// In-place iterative radix-2 FFT, the length of both arrays must be a power of two
+export function fft(real: Float32Array, imag: Float32Array): void {
+    const size = real.length;
+
+    // Bit-reversal permutation
+    for (let i = 1, j = 0; i < size; i++) {
+        let bit = size >> 1;
+        for (; j & bit; bit >>= 1) {
+            j ^= bit;
+        }
+        j ^= bit;
+        if (i < j) {
+            [real[i], real[j]] = [real[j] ?? 0, real[i] ?? 0];
+            [imag[i], imag[j]] = [imag[j] ?? 0, imag[i] ?? 0];
+        }
+    }
+
+    for (let length = 2; length <= size; length <<= 1) {
+        const angle = (-2 * Math.PI) / length;
+        const stepReal = Math.cos(angle);
+        const stepImag = Math.sin(angle);
+        for (let start = 0; start < size; start += length) {
+            let twiddleReal = 1;
+            let twiddleImag = 0;
+            for (let k = 0; k < length / 2; k++) {
+                const even = start + k;
+                const odd = even + length / 2;
+                const oddReal = (real[odd] ?? 0) * twiddleReal - (imag[odd] ?? 0) * twiddleImag;
+                const oddImag = (real[odd] ?? 0) * twiddleImag + (imag[odd] ?? 0) * twiddleReal;
+                real[odd] = (real[even] ?? 0) - oddReal;
+                imag[odd] = (imag[even] ?? 0) - oddImag;
+                real[even] = (real[even] ?? 0) + oddReal;
+                imag[even] = (imag[even] ?? 0) + oddImag;
+                const nextReal = twiddleReal * stepReal - twiddleImag * stepImag;
+                twiddleImag = twiddleReal * stepImag + twiddleImag * stepReal;
+                twiddleReal = nextReal;
+            }
+        }
+    }
+}
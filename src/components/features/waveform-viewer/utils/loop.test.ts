@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test";
+import { getLoopBounds, resolveLoopRange } from "./loop";
+import { createTag } from "./tags";
+
+describe("resolveLoopRange", () => {
+    test("follows the tag the loop was set from", () => {
+        const tag = createTag(4, 6);
+        const moved = { ...tag, start: 5, end: 8 };
+        expect(resolveLoopRange({ start: 4, end: 6, tagId: tag.id }, [moved])).toEqual({ start: 5, end: 8 });
+    });
+
+    test("keeps its own range without a tag or once the tag is gone", () => {
+        expect(resolveLoopRange({ start: 1, end: 2, tagId: null }, [createTag(4, 6)])).toEqual({ start: 1, end: 2 });
+        expect(resolveLoopRange({ start: 4, end: 6, tagId: "deleted" }, [createTag(7, 9)])).toEqual({ start: 4, end: 6 });
+        expect(resolveLoopRange(null, [])).toBeNull();
+    });
+});
+
+describe("getLoopBounds", () => {
+    test("widens the range by the pre- and post-roll", () => {
+        expect(getLoopBounds({ start: 4, end: 6 }, 0.5, 2, 60)).toEqual({ start: 3.5, end: 8 });
+    });
+
+    test("keeps the padded range inside the file", () => {
+        expect(getLoopBounds({ start: 0.25, end: 59 }, 1, 5, 60)).toEqual({ start: 0, end: 60 });
+    });
+
+    test("has no bounds for an empty range", () => {
+        expect(getLoopBounds({ start: 5, end: 5 }, 0, 0, 60)).toBeNull();
+        expect(getLoopBounds({ start: 70, end: 80 }, 0, 0, 60)).toBeNull();
+        expect(getLoopBounds(null, 1, 1, 60)).toBeNull();
+        // A marker still loops once it has padding
+        expect(getLoopBounds({ start: 5, end: 5 }, 0.25, 0.25, 60)).toEqual({ start: 4.75, end: 5.25 });
+    });
+});
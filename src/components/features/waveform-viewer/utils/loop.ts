@@ -0,0 +1,19 @@
+import type { LoopRange, Tag } from "../types";
+
+// Pre- and post-roll choices in seconds
+export const LOOP_PADDINGS = [0, 0.25, 0.5, 1, 2, 5];
+
+// A loop set from a tag follows it, once the tag is gone the loop keeps its last range
+export function resolveLoopRange(loop: LoopRange | null, tags: Tag[]): { start: number; end: number } | null {
+    if (!loop) return null;
+    const tag = loop.tagId === null ? undefined : tags.find((existing) => existing.id === loop.tagId);
+    return tag ? { start: tag.start, end: tag.end } : { start: loop.start, end: loop.end };
+}
+
+// The range playback repeats: the loop widened by the padding and kept inside the file
+export function getLoopBounds(range: { start: number; end: number } | null, preRoll: number, postRoll: number, duration: number): { start: number; end: number } | null {
+    if (!range) return null;
+    const start = Math.max(0, range.start - preRoll);
+    const end = Math.min(duration, range.end + postRoll);
+    return end > start ? { start, end } : null;
+}
@@ -0,0 +1,52 @@
+import type { AudioData, WavFormat } from "../types";
+import { createChannelPeaksBuilder } from "./peaks";
+import type { ParseProgress } from "./wavParser";
+
+export interface DecodedPcm {
+    file: Blob;
+    sourceFormat: string;
+    sampleRate: number;
+    channelData: Float32Array[];
+}
+
+// Frames folded into peaks between progress reports
+const PROGRESS_INTERVAL = 1 << 20;
+
+// Decoded audio is 32-bit float PCM, whatever the source codec was
+function decodedFormat(channels: number): WavFormat {
+    return { formatTag: 0x0003, encoding: "float", bitsPerSample: 32, validBitsPerSample: 32, blockAlign: channels * 4, channelMask: 0, subFormat: null };
+}
+
+export function createAudioDataFromPcm({ file, sourceFormat, sampleRate, channelData }: DecodedPcm, onProgress?: (progress: ParseProgress) => void): AudioData {
+    const channels = Math.max(1, channelData.length);
+    const frameCount = channelData[0]?.length ?? 0;
+    const peakBuilder = createChannelPeaksBuilder(frameCount, channels);
+    const frameSamples = new Float32Array(channels);
+
+    for (let frame = 0; frame < frameCount; frame++) {
+        for (let ch = 0; ch < channels; ch++) {
+            frameSamples[ch] = channelData[ch]?.[frame] ?? 0;
+        }
+        peakBuilder.pushFrame(frameSamples);
+
+        if ((frame + 1) % PROGRESS_INTERVAL === 0 || frame === frameCount - 1) {
+            // Decoding is done by now, report peak building in terms of the source file
+            onProgress?.({ bytesRead: Math.round(((frame + 1) / frameCount) * file.size), totalBytes: file.size });
+        }
+    }
+
+    return {
+        ...peakBuilder.finish(),
+        sourceFormat,
+        sampleRate,
+        channels,
+        duration: frameCount / sampleRate,
+        frameCount,
+        format: decodedFormat(channels),
+        metadata: { cuePoints: [], info: [], bext: null, ixml: null },
+        chunks: [],
+        file,
+        dataOffset: 0,
+        dataSize: 0,
+    };
+}
@@ -0,0 +1,188 @@
+import type { AudioData, DownmixMode, MixPeaks, PeakLevel, WaveformPeaks } from "../types";
+
+// Upper bound on finest-level peaks across all waveforms of a file, keeps memory flat regardless of file length
+const MAX_PEAK_COUNT = 1 << 22;
+const MIN_SAMPLES_PER_PEAK = 16;
+
+// Each mipmap level is this many times coarser than the previous one, the whole pyramid adds a third on top of the finest level
+export const PEAK_LEVEL_FACTOR = 4;
+
+export interface PeakBuilder {
+    push: (sample: number) => void;
+    finish: () => WaveformPeaks;
+}
+
+export interface ChannelPeaksBuilder {
+    pushFrame: (frame: ArrayLike<number>) => void;
+    finish: () => { channelPeaks: WaveformPeaks[]; mixPeaks: MixPeaks };
+}
+
+export function choosePeakResolution(frameCount: number, waveformCount: number = 1): number {
+    const maxPeaks = MAX_PEAK_COUNT / Math.max(1, waveformCount);
+    let samplesPerPeak = MIN_SAMPLES_PER_PEAK;
+    while (frameCount / samplesPerPeak > maxPeaks) {
+        samplesPerPeak *= 2;
+    }
+    return samplesPerPeak;
+}
+
+export function createPeakBuilder(frameCount: number, samplesPerPeak: number = choosePeakResolution(frameCount)): PeakBuilder {
+    const capacity = Math.max(1, Math.ceil(frameCount / samplesPerPeak));
+    const min = new Float32Array(capacity);
+    const max = new Float32Array(capacity);
+    const rms = new Float32Array(capacity);
+    let length = 0;
+    let count = 0;
+    let currentMin = 1;
+    let currentMax = -1;
+    let sumSquares = 0;
+
+    const flush = () => {
+        if (count === 0 || length >= capacity) return;
+        min[length] = currentMin;
+        max[length] = currentMax;
+        rms[length] = Math.sqrt(sumSquares / count);
+        length++;
+        count = 0;
+        currentMin = 1;
+        currentMax = -1;
+        sumSquares = 0;
+    };
+
+    return {
+        push: (sample: number) => {
+            if (!Number.isNaN(sample)) {
+                if (sample < currentMin) currentMin = sample;
+                if (sample > currentMax) currentMax = sample;
+                sumSquares += sample * sample;
+            }
+            count++;
+            if (count === samplesPerPeak) {
+                flush();
+            }
+        },
+        finish: () => {
+            flush();
+            const base: PeakLevel = { samplesPerPeak, length, min: min.subarray(0, length), max: max.subarray(0, length), rms: rms.subarray(0, length) };
+            return { levels: buildPeakLevels(base) };
+        },
+    };
+}
+
+function reducePeakLevel(level: PeakLevel): PeakLevel {
+    const length = Math.ceil(level.length / PEAK_LEVEL_FACTOR);
+    const min = new Float32Array(length);
+    const max = new Float32Array(length);
+    const rms = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+        const first = i * PEAK_LEVEL_FACTOR;
+        const last = Math.min(level.length, first + PEAK_LEVEL_FACTOR);
+        let levelMin = 1;
+        let levelMax = -1;
+        let sumSquares = 0;
+        for (let j = first; j < last; j++) {
+            const value = level.rms[j] ?? 0;
+            levelMin = Math.min(levelMin, level.min[j] ?? 0);
+            levelMax = Math.max(levelMax, level.max[j] ?? 0);
+            sumSquares += value * value;
+        }
+        min[i] = levelMin;
+        max[i] = levelMax;
+        rms[i] = Math.sqrt(sumSquares / (last - first));
+    }
+    return { samplesPerPeak: level.samplesPerPeak * PEAK_LEVEL_FACTOR, length, min, max, rms };
+}
+
+function buildPeakLevels(base: PeakLevel): [PeakLevel, ...PeakLevel[]] {
+    const levels: [PeakLevel, ...PeakLevel[]] = [base];
+    let level = base;
+    while (level.length > 1) {
+        level = reducePeakLevel(level);
+        levels.push(level);
+    }
+    return levels;
+}
+
+// Peaks for every channel plus the downmixes, all at the same resolution
+export function createChannelPeaksBuilder(frameCount: number, channels: number): ChannelPeaksBuilder {
+    const samplesPerPeak = choosePeakResolution(frameCount, channels + 3);
+    const channelBuilders = Array.from({ length: channels }, () => createPeakBuilder(frameCount, samplesPerPeak));
+    const average = createPeakBuilder(frameCount, samplesPerPeak);
+    const mid = createPeakBuilder(frameCount, samplesPerPeak);
+    const side = createPeakBuilder(frameCount, samplesPerPeak);
+
+    return {
+        pushFrame: (frame: ArrayLike<number>) => {
+            let sum = 0;
+            for (let ch = 0; ch < channels; ch++) {
+                const sample = frame[ch] ?? 0;
+                channelBuilders[ch]?.push(sample);
+                sum += sample;
+            }
+            // Mid/side use the front pair, a mono file has no side signal
+            const left = frame[0] ?? 0;
+            const right = channels > 1 ? (frame[1] ?? 0) : left;
+            average.push(sum / channels);
+            mid.push((left + right) / 2);
+            side.push((left - right) / 2);
+        },
+        finish: () => ({
+            channelPeaks: channelBuilders.map((builder) => builder.finish()),
+            mixPeaks: { average: average.finish(), mid: mid.finish(), side: side.finish() },
+        }),
+    };
+}
+
+export function getDownmixPeaks({ channelPeaks, mixPeaks }: Pick<AudioData, "channelPeaks" | "mixPeaks">, mode: DownmixMode): WaveformPeaks {
+    switch (mode) {
+        case "left":
+            return channelPeaks[0] ?? mixPeaks.average;
+        case "right":
+            return channelPeaks[1] ?? channelPeaks[0] ?? mixPeaks.average;
+        case "mid":
+            return mixPeaks.mid;
+        case "side":
+            return mixPeaks.side;
+        default:
+            return mixPeaks.average;
+    }
+}
+
+// Buffers to hand over when posting peaks between threads
+export function peakBuffers({ channelPeaks, mixPeaks }: Pick<AudioData, "channelPeaks" | "mixPeaks">): ArrayBuffer[] {
+    return [...channelPeaks, mixPeaks.average, mixPeaks.mid, mixPeaks.side].flatMap((peaks) => peaks.levels.flatMap((level) => [level.min.buffer as ArrayBuffer, level.max.buffer as ArrayBuffer, level.rms.buffer as ArrayBuffer]));
+}
+
+// Coarsest level that still has at least one peak per pixel, so drawing touches a bounded number of entries per pixel
+export function selectPeakLevel(peaks: WaveformPeaks, framesPerPixel: number): PeakLevel {
+    let selected = peaks.levels[0];
+    for (const level of peaks.levels) {
+        if (level.samplesPerPeak > framesPerPixel) break;
+        selected = level;
+    }
+    return selected;
+}
+
+// Min/max/RMS over a frame range, in the resolution of the given level
+export function summarizePeakLevel(level: PeakLevel, startFrame: number, endFrame: number): { min: number; max: number; rms: number } {
+    const first = Math.max(0, Math.floor(startFrame / level.samplesPerPeak));
+    const last = Math.min(level.length, Math.max(first + 1, Math.ceil(endFrame / level.samplesPerPeak)));
+    let min = 1;
+    let max = -1;
+    let sumSquares = 0;
+    for (let i = first; i < last; i++) {
+        const peakMin = level.min[i] ?? 0;
+        const peakMax = level.max[i] ?? 0;
+        const peakRms = level.rms[i] ?? 0;
+        if (peakMin < min) min = peakMin;
+        if (peakMax > max) max = peakMax;
+        sumSquares += peakRms * peakRms;
+    }
+    return min > max ? { min: 0, max: 0, rms: 0 } : { min, max, rms: Math.sqrt(sumSquares / (last - first)) };
+}
+
+// Min/max over a frame range, read from the coarsest level that fits the range
+export function summarizePeaks(peaks: WaveformPeaks, startFrame: number, endFrame: number): [number, number] {
+    const { min, max } = summarizePeakLevel(selectPeakLevel(peaks, endFrame - startFrame), startFrame, endFrame);
+    return [min, max];
+}
@@ -0,0 +1,39 @@
+const textDecoder = new TextDecoder("utf-8");
+
+export function readFourCC(view: DataView, offset: number): string {
+    return String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+}
+
+export function readUint64(view: DataView, offset: number): number {
+    return Number(view.getBigUint64(offset, true));
+}
+
+// Fixed-size or trailing text fields are NUL padded, so cut at the first NUL
+export function readString(view: DataView, offset: number, length: number): string {
+    const end = Math.min(offset + length, view.byteLength);
+    if (end <= offset) return "";
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, end - offset);
+    const nul = bytes.indexOf(0);
+    return textDecoder.decode(nul === -1 ? bytes : bytes.subarray(0, nul)).trim();
+}
+
+// Read a byte range of the file without loading the rest of it
+export async function readRange(file: Blob, offset: number, length: number): Promise<DataView> {
+    const buffer = await file.slice(offset, offset + length).arrayBuffer();
+    return new DataView(buffer);
+}
+
+// RIFF chunks are word aligned, odd-sized chunks are followed by one pad byte
+export function paddedSize(size: number): number {
+    return size + (size & 1);
+}
+
+export function writeFourCC(view: DataView, offset: number, id: string) {
+    for (let i = 0; i < 4; i++) {
+        view.setUint8(offset + i, id.charCodeAt(i) & 0xff);
+    }
+}
+
+export function writeUint64(view: DataView, offset: number, value: number) {
+    view.setBigUint64(offset, BigInt(value), true);
+}
@@ -0,0 +1,63 @@
+import type { AudioData, DownmixMode } from "../types";
+import { readRange } from "./riff";
+import { createSampleReader } from "./wavParser";
+
+// What reading frames back needs, small enough to hand to a worker without the peaks
+export type SampleSource = Pick<AudioData, "file" | "format" | "channels" | "frameCount" | "dataOffset">;
+
+export interface SampleWindow {
+    startFrame: number;
+    length: number;
+    channelData: Float32Array[];
+}
+
+// Only WAV sources keep a byte layout frames can be read back from, decoded formats stop at peak resolution
+export function canReadSamples({ sourceFormat, dataSize }: Pick<AudioData, "sourceFormat" | "dataSize">): boolean {
+    return sourceFormat === "WAV" && dataSize > 0;
+}
+
+// Read a run of frames straight from the file, for sample-level zoom
+export async function readSampleWindow(audioData: SampleSource, startFrame: number, frameCount: number): Promise<SampleWindow> {
+    const { format, channels, file, dataOffset } = audioData;
+    const first = Math.max(0, Math.min(Math.floor(startFrame), audioData.frameCount));
+    const length = Math.max(0, Math.min(Math.ceil(frameCount), audioData.frameCount - first));
+    const bytesPerSample = format.bitsPerSample / 8;
+    const frameSize = Math.max(format.blockAlign, bytesPerSample * channels);
+    const view = await readRange(file, dataOffset + first * frameSize, length * frameSize);
+    const readSample = createSampleReader(format);
+
+    const available = Math.min(length, Math.floor(view.byteLength / frameSize));
+    const channelData = Array.from({ length: channels }, () => new Float32Array(available));
+    for (let i = 0; i < available; i++) {
+        for (let ch = 0; ch < channels; ch++) {
+            const data = channelData[ch];
+            if (data) data[i] = readSample(view, i * frameSize + ch * bytesPerSample);
+        }
+    }
+    return { startFrame: first, length: available, channelData };
+}
+
+// Same downmixes as the peaks, computed from raw frames
+export function downmixSamples({ channelData, length }: SampleWindow, mode: DownmixMode): Float32Array {
+    const left = channelData[0] ?? new Float32Array(length);
+    const right = channelData[1] ?? left;
+    switch (mode) {
+        case "left":
+            return left;
+        case "right":
+            return right;
+        case "mid":
+            return left.map((sample, i) => (sample + (right[i] ?? 0)) / 2);
+        case "side":
+            return left.map((sample, i) => (sample - (right[i] ?? 0)) / 2);
+        default: {
+            const mix = new Float32Array(length);
+            for (const data of channelData) {
+                for (let i = 0; i < length; i++) {
+                    mix[i] = (mix[i] ?? 0) + (data[i] ?? 0) / channelData.length;
+                }
+            }
+            return mix;
+        }
+    }
+}
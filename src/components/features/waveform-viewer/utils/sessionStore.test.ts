@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+import { getFileFingerprint } from "./sessionStore";
+
+// Larger than the hashed head and tail together, so the middle is only covered by the sampled slices
+const FILE_SIZE = 4 * 1024 * 1024;
+// An edit in the middle of the take, longer than the gap between sampled slices
+const EDIT_SIZE = 256 * 1024;
+
+function fileWithMiddleEdit(value: number, name = "take.mp3"): File {
+    const bytes = new Uint8Array(FILE_SIZE);
+    bytes.fill(value, (FILE_SIZE - EDIT_SIZE) / 2, (FILE_SIZE + EDIT_SIZE) / 2);
+    return new File([bytes], name);
+}
+
+describe("getFileFingerprint", () => {
+    test("is the same for the same bytes and name", async () => {
+        expect(await getFileFingerprint(fileWithMiddleEdit(1))).toBe(await getFileFingerprint(fileWithMiddleEdit(1)));
+    });
+
+    test("tells apart files that differ only in the middle", async () => {
+        expect(await getFileFingerprint(fileWithMiddleEdit(1))).not.toBe(await getFileFingerprint(fileWithMiddleEdit(2)));
+    });
+
+    test("includes the size and name", async () => {
+        expect(await getFileFingerprint(fileWithMiddleEdit(1, "a.wav"))).toEndWith(`:${FILE_SIZE}:a.wav`);
+    });
+});
@@ -0,0 +1,104 @@
+import type { SavedSession } from "../types";
+import { readWavHeader } from "./wavParser";
+
+const DATABASE_NAME = "waveform-viewer";
+const DATABASE_VERSION = 1;
+const SESSION_STORE = "sessions";
+// Bytes hashed from each end of the file, hashing all of a multi-gigabyte recording would take too long
+const FINGERPRINT_SLICE_SIZE = 1024 * 1024;
+// Slices spread through the audio, takes that share a header and tail (re-exports, edits in the middle) still differ there
+const FINGERPRINT_SAMPLE_COUNT = 16;
+const FINGERPRINT_SAMPLE_SIZE = 64 * 1024;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"));
+    });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === "undefined") {
+            reject(new Error("IndexedDB is not available"));
+            return;
+        }
+        const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(SESSION_STORE, { keyPath: "key" });
+            store.createIndex("savedAt", "savedAt");
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error("Could not open IndexedDB"));
+    }).catch((error) => {
+        // Let a later call try again, e.g. after the user allows storage
+        databasePromise = null;
+        throw error;
+    });
+    return databasePromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await openDatabase();
+    return requestToPromise(run(database.transaction(SESSION_STORE, mode).objectStore(SESSION_STORE)));
+}
+
+// Byte range of the audio samples: a WAV file's data chunk, all of any other file
+async function getAudioRange(file: File): Promise<{ start: number; end: number }> {
+    try {
+        const { dataOffset, dataSize } = await readWavHeader(file);
+        return { start: dataOffset, end: dataOffset + dataSize };
+    } catch {
+        return { start: 0, end: file.size };
+    }
+}
+
+// SHA-256 of the start and end of the file, slices from inside its audio and its size, combined with the size and name.
+// A heuristic identity rather than a content hash: files differing only between the sampled bytes get the same fingerprint.
+export async function getFileFingerprint(file: File): Promise<string> {
+    const head = file.slice(0, FINGERPRINT_SLICE_SIZE);
+    const tail = file.slice(Math.max(FINGERPRINT_SLICE_SIZE, file.size - FINGERPRINT_SLICE_SIZE));
+    const { start, end } = await getAudioRange(file);
+    const samples = Array.from({ length: FINGERPRINT_SAMPLE_COUNT }, (_, index) => {
+        const position = start + Math.floor(((end - start) * (index + 1)) / (FINGERPRINT_SAMPLE_COUNT + 1));
+        return file.slice(position, position + FINGERPRINT_SAMPLE_SIZE);
+    });
+    const content = await new Blob([head, ...samples, tail, String(file.size)]).arrayBuffer();
+    const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", content));
+    const hash = Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join("");
+    return `${hash}:${file.size}:${file.name}`;
+}
+
+export function saveSession(session: SavedSession): Promise<IDBValidKey> {
+    return withStore("readwrite", (store) => store.put(session));
+}
+
+export async function loadSession(key: string): Promise<SavedSession | null> {
+    return (await withStore<SavedSession | undefined>("readonly", (store) => store.get(key))) ?? null;
+}
+
+export function deleteSession(key: string): Promise<undefined> {
+    return withStore("readwrite", (store) => store.delete(key));
+}
+
+// Most recently saved first
+export async function listSessions(limit: number): Promise<SavedSession[]> {
+    const database = await openDatabase();
+    const index = database.transaction(SESSION_STORE, "readonly").objectStore(SESSION_STORE).index("savedAt");
+    return new Promise((resolve, reject) => {
+        const sessions: SavedSession[] = [];
+        const request = index.openCursor(null, "prev");
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor || sessions.length >= limit) {
+                resolve(sessions);
+                return;
+            }
+            sessions.push(cursor.value as SavedSession);
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"));
+    });
+}
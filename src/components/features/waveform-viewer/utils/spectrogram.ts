@@ -0,0 +1,197 @@
+import type { ColorMap, FrequencyScale, SpectrogramSettings } from "../types";
+import { createWindow, fft } from "./fft";
+
+export const FFT_SIZES = [256, 512, 1024, 2048, 4096, 8192];
+export const OVERLAPS = [0, 0.5, 0.75, 0.875];
+// Level mapped to the bottom of the colour map, a full-scale sine reads 0 dB
+export const SPECTROGRAM_DB_FLOOR = -100;
+// Bottom of the log scale, below this there is little but rumble
+const LOG_MIN_FREQUENCY = 20;
+// Closest two frequency ruler labels may be, in CSS pixels
+const FREQUENCY_LABEL_SPACING = 24;
+
+export const WINDOW_FUNCTIONS = [
+    { value: "hann", label: "Hann" },
+    { value: "hamming", label: "Hamming" },
+    { value: "blackman", label: "Blackman" },
+    { value: "rectangular", label: "Rectangular" },
+] as const;
+
+export const FREQUENCY_SCALES = [
+    { value: "linear", label: "Linear" },
+    { value: "log", label: "Log" },
+    { value: "mel", label: "Mel" },
+] as const;
+
+export const COLOR_MAPS = [
+    { value: "viridis", label: "Viridis" },
+    { value: "magma", label: "Magma" },
+    { value: "grayscale", label: "Grayscale" },
+] as const;
+
+// Evenly spaced stops, interpolated into a 256 entry table
+const COLOR_MAP_STOPS: Record<ColorMap, Array<[number, number, number]>> = {
+    viridis: [
+        [68, 1, 84],
+        [72, 40, 120],
+        [62, 73, 137],
+        [49, 104, 142],
+        [38, 130, 142],
+        [31, 158, 137],
+        [53, 183, 121],
+        [109, 205, 89],
+        [180, 222, 44],
+        [253, 231, 37],
+    ],
+    magma: [
+        [0, 0, 4],
+        [28, 16, 68],
+        [79, 18, 123],
+        [129, 37, 129],
+        [181, 54, 122],
+        [229, 80, 100],
+        [251, 135, 97],
+        [254, 194, 135],
+        [252, 253, 191],
+    ],
+    grayscale: [
+        [0, 0, 0],
+        [255, 255, 255],
+    ],
+};
+
+const colorTables = new Map<ColorMap, Uint8ClampedArray>();
+
+// RGB triplets for levels 0 to 255
+export function getColorTable(colorMap: ColorMap): Uint8ClampedArray {
+    const cached = colorTables.get(colorMap);
+    if (cached) return cached;
+
+    const stops = COLOR_MAP_STOPS[colorMap];
+    const table = new Uint8ClampedArray(256 * 3);
+    for (let level = 0; level < 256; level++) {
+        const position = (level / 255) * (stops.length - 1);
+        const index = Math.min(Math.floor(position), stops.length - 2);
+        const fraction = position - index;
+        const from = stops[index] ?? [0, 0, 0];
+        const to = stops[index + 1] ?? from;
+        for (let c = 0; c < 3; c++) {
+            table[level * 3 + c] = (from[c] ?? 0) + ((to[c] ?? 0) - (from[c] ?? 0)) * fraction;
+        }
+    }
+    colorTables.set(colorMap, table);
+    return table;
+}
+
+export function getHopSize({ fftSize, overlap }: Pick<SpectrogramSettings, "fftSize" | "overlap">): number {
+    return Math.max(1, Math.round(fftSize * (1 - overlap)));
+}
+
+// One column per hop when zoomed in, one per pixel once a pixel spans more than a hop
+export function getFramesPerColumn(settings: Pick<SpectrogramSettings, "fftSize" | "overlap">, framesPerPixel: number): number {
+    return Math.max(getHopSize(settings), framesPerPixel);
+}
+
+function getMinFrequency(scale: FrequencyScale, sampleRate: number, fftSize: number): number {
+    return scale === "log" ? Math.max(LOG_MIN_FREQUENCY, sampleRate / fftSize) : 0;
+}
+
+const toMel = (frequency: number) => 2595 * Math.log10(1 + frequency / 700);
+const fromMel = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+// Position 0 is the bottom of the spectrogram, 1 the Nyquist frequency at the top
+export function positionToFrequency(position: number, scale: FrequencyScale, sampleRate: number, fftSize: number): number {
+    const nyquist = sampleRate / 2;
+    const minFrequency = getMinFrequency(scale, sampleRate, fftSize);
+    switch (scale) {
+        case "log":
+            return minFrequency * (nyquist / minFrequency) ** position;
+        case "mel":
+            return fromMel(position * toMel(nyquist));
+        default:
+            return position * nyquist;
+    }
+}
+
+export function frequencyToPosition(frequency: number, scale: FrequencyScale, sampleRate: number, fftSize: number): number {
+    const nyquist = sampleRate / 2;
+    const minFrequency = getMinFrequency(scale, sampleRate, fftSize);
+    switch (scale) {
+        case "log":
+            return Math.log(Math.max(frequency, minFrequency) / minFrequency) / Math.log(nyquist / minFrequency);
+        case "mel":
+            return toMel(frequency) / toMel(nyquist);
+        default:
+            return frequency / nyquist;
+    }
+}
+
+// Magnitudes of evenly spaced windows as levels 0-255, column-major with binCount entries per column
+export function computeSpectrogramColumns(readWindow: (column: number, into: Float32Array) => void, columnCount: number, { fftSize, windowFunction }: Pick<SpectrogramSettings, "fftSize" | "windowFunction">): Uint8Array {
+    const window = createWindow(windowFunction, fftSize);
+    const binCount = fftSize / 2 + 1;
+    // Scale so a full-scale sine peaks at 0 dB whatever the window
+    const gain = 2 / window.reduce((sum, value) => sum + value, 0);
+    const real = new Float32Array(fftSize);
+    const imag = new Float32Array(fftSize);
+    const levels = new Uint8Array(columnCount * binCount);
+
+    for (let column = 0; column < columnCount; column++) {
+        readWindow(column, real);
+        for (let i = 0; i < fftSize; i++) {
+            real[i] = (real[i] ?? 0) * (window[i] ?? 0);
+        }
+        imag.fill(0);
+        fft(real, imag);
+        for (let bin = 0; bin < binCount; bin++) {
+            const magnitude = Math.hypot(real[bin] ?? 0, imag[bin] ?? 0) * gain;
+            const db = 20 * Math.log10(magnitude + 1e-12);
+            levels[column * binCount + bin] = Math.round(Math.min(Math.max(1 - db / SPECTROGRAM_DB_FLOOR, 0), 1) * 255);
+        }
+    }
+    return levels;
+}
+
+// FFT bin range covered by each pixel row, top row first
+export function getRowBins(rowCount: number, scale: FrequencyScale, sampleRate: number, fftSize: number): Int32Array {
+    const binsPerHz = fftSize / sampleRate;
+    const lastBin = fftSize / 2;
+    const rows = new Int32Array(rowCount * 2);
+    for (let row = 0; row < rowCount; row++) {
+        const low = Math.round(positionToFrequency(1 - (row + 1) / rowCount, scale, sampleRate, fftSize) * binsPerHz);
+        const high = Math.round(positionToFrequency(1 - row / rowCount, scale, sampleRate, fftSize) * binsPerHz);
+        rows[row * 2] = Math.min(low, lastBin);
+        // Rows narrower than a bin show the nearest one
+        rows[row * 2 + 1] = Math.min(Math.max(high - 1, low), lastBin);
+    }
+    return rows;
+}
+
+// Ruler labels, evenly stepped on the linear scale and at round frequencies on the others
+export function getFrequencyTicks(scale: FrequencyScale, sampleRate: number, fftSize: number, height: number): Array<{ position: number; label: string }> {
+    const nyquist = sampleRate / 2;
+    const candidates: number[] = [];
+    for (let decade = 10; decade < nyquist; decade *= 10) {
+        candidates.push(decade, decade * 2, decade * 5);
+    }
+
+    const label = (frequency: number) => (frequency >= 1000 ? `${frequency / 1000}k` : `${frequency}`);
+    const ticks: Array<{ position: number; label: string }> = [];
+    if (scale === "linear") {
+        const step = candidates.find((candidate) => (candidate / nyquist) * height >= FREQUENCY_LABEL_SPACING) ?? nyquist;
+        for (let frequency = 0; frequency < nyquist; frequency += step) {
+            ticks.push({ position: frequency / nyquist, label: label(frequency) });
+        }
+        return ticks;
+    }
+
+    // Nothing closer to the bottom edge than to the next label
+    let lastY = 0;
+    for (const frequency of candidates) {
+        const position = frequencyToPosition(frequency, scale, sampleRate, fftSize);
+        if (position <= 0 || position >= 1 || position * height - lastY < FREQUENCY_LABEL_SPACING) continue;
+        ticks.push({ position, label: label(frequency) });
+        lastY = position * height;
+    }
+    return ticks;
+}
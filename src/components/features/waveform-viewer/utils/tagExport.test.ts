@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import type { TagCategory } from "../types";
+import { DEFAULT_TAG_EXPORT_OPTIONS, exportTags } from "./tagExport";
+import { createTag } from "./tags";
+
+const categories: TagCategory[] = [{ id: "music", name: "Music", color: "#ff0000" }];
+
+describe("exportTags", () => {
+    test("writes tags in time order, unlabelled ones named by their list position", () => {
+        const tags = [createTag(2, 4, { label: "Verse\tone", categoryId: "music" }), createTag(1, 1.23456)];
+        expect(exportTags("audacity", tags, categories, DEFAULT_TAG_EXPORT_OPTIONS, "song.wav")).toBe("1.000\t1.235\tTag 2\n2.000\t4.000\tVerse one\n");
+        expect(JSON.parse(exportTags("json", tags, categories, { ...DEFAULT_TAG_EXPORT_OPTIONS, precision: 1 }, "song.wav"))).toEqual([
+            { start: 1, end: 1.2, label: "", category: null, notes: "" },
+            { start: 2, end: 4, label: "Verse\tone", category: "Music", notes: "" },
+        ]);
+    });
+
+    test("quotes CSV fields and keeps the duration consistent with the rounded times", () => {
+        const tags = [createTag(0.0004, 1.0006, { label: 'Say "hi", then go', notes: "two\nlines" })];
+        expect(exportTags("csv", tags, categories, DEFAULT_TAG_EXPORT_OPTIONS, "song.wav")).toBe('Start,End,Duration,Label,Category,Notes\n0.000,1.001,1.001,"Say ""hi"", then go",,"two\nlines"\n');
+    });
+
+    test("writes SRT and WebVTT cues, escaping WebVTT markup", () => {
+        const tags = [createTag(3661.5, 3662, { label: "a --> b <c>", notes: "check" })];
+        expect(exportTags("srt", tags, categories, DEFAULT_TAG_EXPORT_OPTIONS, "song.wav")).toBe("1\n01:01:01,500 --> 01:01:02,000\na --> b <c>\n");
+        expect(exportTags("vtt", tags, categories, DEFAULT_TAG_EXPORT_OPTIONS, "song.wav")).toBe("WEBVTT\n\nNOTE check\n\n01:01:01.500 --> 01:01:02.000\na -&gt; b &lt;c&gt;\n");
+    });
+
+    test("lays EDL events end to end, markers one frame long", () => {
+        const tags = [createTag(2, 4, { label: "Verse" }), createTag(1, 1, { label: "Cue" })];
+        const columns = (event: string, times: string) => `${event}  AX       A     C        ${times}`;
+        expect(exportTags("edl", tags, categories, DEFAULT_TAG_EXPORT_OPTIONS, "take.1.wav").split("\n")).toEqual([
+            "TITLE: take.1",
+            "FCM: NON-DROP FRAME",
+            "",
+            columns("001", "00:00:01:00 00:00:01:01 00:00:00:00 00:00:00:01"),
+            "* FROM CLIP NAME: take.1.wav",
+            "* COMMENT: Cue",
+            "",
+            columns("002", "00:00:02:00 00:00:04:00 00:00:00:01 00:00:02:01"),
+            "* FROM CLIP NAME: take.1.wav",
+            "* COMMENT: Verse",
+            "",
+        ]);
+    });
+
+    test("writes drop-frame EDL timecodes", () => {
+        const edl = exportTags("edl", [createTag(60, 61)], categories, { ...DEFAULT_TAG_EXPORT_OPTIONS, frameRate: "smpte-29.97df" }, "song.wav");
+        expect(edl).toContain("FCM: DROP FRAME");
+        // Thirty frames apart, the labels skip ;00 and ;01 of the new minute
+        expect(edl).toContain("00:00:59;28 00:01:01;00 00:00:00;00 00:00:01;00");
+    });
+
+    test("writes Reaper regions and markers as minutes:seconds", () => {
+        const tags = [createTag(59.9996, 125.5, { label: "Intro, part 1" })];
+        expect(exportTags("reaper", tags, categories, DEFAULT_TAG_EXPORT_OPTIONS, "song.wav")).toBe('#,Name,Start,End,Length\nR1,"Intro, part 1",1:00.000,2:05.500,1:05.500\n');
+        expect(exportTags("reaper", tags, categories, { ...DEFAULT_TAG_EXPORT_OPTIONS, reaperKind: "markers" }, "song.wav")).toBe('#,Name,Start,End,Length\nM1,"Intro, part 1",1:00.000,,\n');
+        expect(exportTags("reaper", [createTag(5, 7)], categories, { ...DEFAULT_TAG_EXPORT_OPTIONS, precision: 0 }, "song.wav")).toBe("#,Name,Start,End,Length\nR1,Tag 1,0:05,0:07,0:02\n");
+    });
+});
@@ -0,0 +1,158 @@
+import type { Tag, TagCategory, TimeFormat } from "../types";
+import { getTagLabel } from "./tags";
+import { formatTimecode, getFrameRate, isDropFrame } from "./time";
+
+export type TagExportFormat = "json" | "audacity" | "srt" | "vtt" | "csv" | "edl" | "reaper";
+
+export interface TagExportOptions {
+    precision: number; // Decimal places of times written in seconds
+    frameRate: TimeFormat; // SMPTE format of EDL timecodes
+    reaperKind: "regions" | "markers";
+}
+
+export const DEFAULT_TAG_EXPORT_OPTIONS: TagExportOptions = {
+    precision: 3,
+    frameRate: "smpte-25",
+    reaperKind: "regions",
+};
+
+export const TAG_EXPORT_FORMATS: Array<{ value: TagExportFormat; label: string; suffix: string; mimeType: string; options: Array<keyof TagExportOptions> }> = [
+    { value: "json", label: "JSON", suffix: "_tags.json", mimeType: "application/json", options: ["precision"] },
+    { value: "audacity", label: "Audacity labels", suffix: "_labels.txt", mimeType: "text/plain", options: ["precision"] },
+    { value: "srt", label: "SRT", suffix: ".srt", mimeType: "application/x-subrip", options: [] },
+    { value: "vtt", label: "WebVTT", suffix: ".vtt", mimeType: "text/vtt", options: [] },
+    { value: "csv", label: "CSV", suffix: "_tags.csv", mimeType: "text/csv", options: ["precision"] },
+    { value: "edl", label: "EDL (CMX3600)", suffix: ".edl", mimeType: "text/plain", options: ["frameRate"] },
+    { value: "reaper", label: "Reaper regions/markers", suffix: "_regions.csv", mimeType: "text/csv", options: ["precision", "reaperKind"] },
+];
+
+export const EXPORT_PRECISIONS = [0, 1, 2, 3, 4, 5, 6];
+
+interface ExportedTag {
+    tag: Tag;
+    label: string;
+    category: string | null;
+}
+
+// Tags in time order, named the way the list shows them
+function prepareTags(tags: Tag[], categories: TagCategory[]): ExportedTag[] {
+    return tags.map((tag, index) => ({ tag, label: getTagLabel(tag, index), category: categories.find((category) => category.id === tag.categoryId)?.name ?? null })).sort((a, b) => a.tag.start - b.tag.start || a.tag.end - b.tag.end);
+}
+
+// Labels written on one line of a line-based format
+function singleLine(text: string): string {
+    return text.replace(/[\t\r\n]+/g, " ").trim();
+}
+
+function formatSeconds(seconds: number, precision: number): string {
+    return seconds.toFixed(precision);
+}
+
+// Length between the times as written, so the columns add up
+function formatLength(tag: Tag, precision: number): string {
+    return (Number(tag.end.toFixed(precision)) - Number(tag.start.toFixed(precision))).toFixed(precision);
+}
+
+// hh:mm:ss followed by milliseconds, SRT separates them with a comma and WebVTT with a dot
+function formatSubtitleTime(seconds: number, separator: "," | "."): string {
+    const totalMillis = Math.round(Math.max(0, seconds) * 1000);
+    const hours = Math.floor(totalMillis / 3600000);
+    const minutes = Math.floor(totalMillis / 60000) % 60;
+    const secs = Math.floor(totalMillis / 1000) % 60;
+    return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}${separator}${String(totalMillis % 1000).padStart(3, "0")}`;
+}
+
+function csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function exportJson(tags: ExportedTag[], { precision }: TagExportOptions): string {
+    const round = (seconds: number) => Number(seconds.toFixed(precision));
+    return JSON.stringify(
+        tags.map(({ tag, category }) => ({ start: round(tag.start), end: round(tag.end), label: tag.label, category, notes: tag.notes })),
+        null,
+        2
+    );
+}
+
+// Audacity label track: start, end and label separated by tabs
+function exportAudacity(tags: ExportedTag[], { precision }: TagExportOptions): string {
+    return tags.map(({ tag, label }) => `${formatSeconds(tag.start, precision)}\t${formatSeconds(tag.end, precision)}\t${singleLine(label)}\n`).join("");
+}
+
+function exportSrt(tags: ExportedTag[]): string {
+    return tags.map(({ tag, label }, index) => `${index + 1}\n${formatSubtitleTime(tag.start, ",")} --> ${formatSubtitleTime(tag.end, ",")}\n${singleLine(label)}\n`).join("\n");
+}
+
+// Cue text can't hold "-->" or unescaped markup, notes go in a NOTE block ahead of their cue
+function exportVtt(tags: ExportedTag[]): string {
+    const escapeText = (text: string) => singleLine(text).replace(/-->/g, "->").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+    const cues = tags.map(({ tag, label }) => {
+        const note = tag.notes.trim() ? `NOTE ${tag.notes.trim().replace(/-->/g, "->")}\n\n` : "";
+        return `${note}${formatSubtitleTime(tag.start, ".")} --> ${formatSubtitleTime(tag.end, ".")}\n${escapeText(label)}\n`;
+    });
+    return ["WEBVTT\n", ...cues].join("\n");
+}
+
+function exportCsv(tags: ExportedTag[], { precision }: TagExportOptions): string {
+    const rows = tags.map(({ tag, category }) => [formatSeconds(tag.start, precision), formatSeconds(tag.end, precision), formatLength(tag, precision), tag.label, category ?? "", tag.notes].map(csvField).join(","));
+    return ["Start,End,Duration,Label,Category,Notes", ...rows, ""].join("\n");
+}
+
+// Tags as events laid end to end on the record side, each one's source times pointing back into the file
+function exportEdl(tags: ExportedTag[], { frameRate }: TagExportOptions, fileName: string): string {
+    const fps = getFrameRate(frameRate) ?? 25;
+    const timecode = (frames: number) => formatTimecode(frames / fps, frameRate, 0);
+    const title = singleLine(fileName.replace(/\.[^.]*$/, "")).slice(0, 70);
+    const lines = [`TITLE: ${title}`, `FCM: ${isDropFrame(frameRate) ? "DROP FRAME" : "NON-DROP FRAME"}`, ""];
+
+    let recordFrame = 0;
+    tags.forEach(({ tag, label }, index) => {
+        const sourceIn = Math.round(tag.start * fps);
+        // Markers still need a frame to be an event
+        const sourceOut = Math.max(Math.round(tag.end * fps), sourceIn + 1);
+        const recordOut = recordFrame + sourceOut - sourceIn;
+        lines.push(`${String(index + 1).padStart(3, "0")}  ${"AX".padEnd(8)} ${"A".padEnd(5)} ${"C".padEnd(8)} ${timecode(sourceIn)} ${timecode(sourceOut)} ${timecode(recordFrame)} ${timecode(recordOut)}`);
+        lines.push(`* FROM CLIP NAME: ${singleLine(fileName)}`);
+        lines.push(`* COMMENT: ${singleLine(label)}`);
+        lines.push("");
+        recordFrame = recordOut;
+    });
+    return lines.join("\n");
+}
+
+// Reaper's Region/Marker Manager CSV, times as minutes:seconds
+function exportReaper(tags: ExportedTag[], { precision, reaperKind }: TagExportOptions): string {
+    const time = (seconds: number) => {
+        // Rounded first so 59.9999 becomes 1:00.000 rather than 0:60.000
+        const rounded = Number(seconds.toFixed(precision));
+        const minutes = Math.floor(rounded / 60);
+        const rest = formatSeconds(rounded - minutes * 60, precision);
+        return `${minutes}:${rest.padStart(precision > 0 ? precision + 3 : 2, "0")}`;
+    };
+    const rows = tags.map(({ tag, label }, index) => {
+        const name = csvField(singleLine(label));
+        return reaperKind === "markers" ? `M${index + 1},${name},${time(tag.start)},,` : `R${index + 1},${name},${time(tag.start)},${time(tag.end)},${time(Number(formatLength(tag, precision)))}`;
+    });
+    return ["#,Name,Start,End,Length", ...rows, ""].join("\n");
+}
+
+export function exportTags(format: TagExportFormat, tags: Tag[], categories: TagCategory[], options: TagExportOptions, fileName: string): string {
+    const prepared = prepareTags(tags, categories);
+    switch (format) {
+        case "json":
+            return exportJson(prepared, options);
+        case "audacity":
+            return exportAudacity(prepared, options);
+        case "srt":
+            return exportSrt(prepared);
+        case "vtt":
+            return exportVtt(prepared);
+        case "csv":
+            return exportCsv(prepared, options);
+        case "edl":
+            return exportEdl(prepared, options, fileName);
+        case "reaper":
+            return exportReaper(prepared, options);
+    }
+}
@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+import { checkImportedTags, detectImportFormat, getImportableTags, guessCsvOptions, parseAudacityLabels, parseCsvTags, parseCueSheet, parseDelimited, parseJsonTags, parseSubtitles } from "./tagImport";
+import { createTag } from "./tags";
+
+describe("detectImportFormat", () => {
+    test("goes by the extension first, then by the content", () => {
+        expect(detectImportFormat("labels.SRT", "")).toBe("subtitles");
+        expect(detectImportFormat("album.cue", "")).toBe("cue");
+        expect(detectImportFormat("markers.tsv", "")).toBe("csv");
+        expect(detectImportFormat("tags.txt", '[{"start": 1}]')).toBe("json");
+        expect(detectImportFormat("tags.txt", "WEBVTT\n\n00:01.000 --> 00:02.000\nHi")).toBe("subtitles");
+        expect(detectImportFormat("tags.txt", 'FILE "a.wav" WAVE\n  TRACK 01 AUDIO')).toBe("cue");
+        expect(detectImportFormat("labels.txt", "1.5\t2.25\tIntro\n")).toBe("audacity");
+        expect(detectImportFormat("tags.txt", "start,end\n1,2")).toBe("csv");
+    });
+});
+
+describe("parseJsonTags", () => {
+    test("reads tag objects and [start, end] pairs", () => {
+        const { tags, errors } = parseJsonTags('{"tags": [{"start": 1, "end": "00:02.5", "name": "Intro", "category": "Music", "note": "loud"}, [3, 4], {"start": 5}]}');
+        expect(errors).toEqual([]);
+        expect(tags).toEqual([
+            { start: 1, end: 2.5, label: "Intro", category: "Music", notes: "loud" },
+            { start: 3, end: 4, label: "", category: null, notes: "" },
+            { start: 5, end: 5, label: "", category: null, notes: "" },
+        ]);
+    });
+
+    test("reports unreadable entries by position", () => {
+        expect(parseJsonTags("{").errors[0]).toStartWith("Not valid JSON");
+        expect(parseJsonTags('{"start": 1}').errors).toEqual(["Expected an array of tags"]);
+        const { tags, errors } = parseJsonTags('[[1], 7, {"start": "soon"}, [1, 2]]');
+        expect(tags).toHaveLength(1);
+        expect(errors).toEqual(["Entry 1: expected [start, end]", "Entry 2: not a tag", "Entry 3: missing or unreadable start/end"]);
+    });
+});
+
+describe("parseAudacityLabels", () => {
+    test("reads tab-separated labels and skips spectral selection lines", () => {
+        const { tags, errors } = parseAudacityLabels("1.5\t2.25\tIntro\n\\\t100\t2000\n3\t3\tBeat\there\n\nbad line\n");
+        expect(tags).toEqual([
+            { start: 1.5, end: 2.25, label: "Intro", category: null, notes: "" },
+            { start: 3, end: 3, label: "Beat\there", category: null, notes: "" },
+        ]);
+        expect(errors).toEqual(["Line 5: expected start and end seconds"]);
+    });
+});
+
+describe("CSV", () => {
+    test("parseDelimited handles quoted delimiters, doubled quotes and line breaks", () => {
+        expect(parseDelimited('a,"b,c","say ""hi""","two\nlines"\r\n\r\n1,2', ",")).toEqual([
+            ["a", "b,c", 'say "hi"', "two\nlines"],
+            ["1", "2"],
+        ]);
+    });
+
+    test("guessCsvOptions finds the delimiter and the columns by header name", () => {
+        expect(guessCsvOptions("Name;Type;Begin;End\n")).toEqual({ delimiter: ";", hasHeader: true, columns: { start: 2, end: 3, label: 0, category: 1, notes: null } });
+        expect(guessCsvOptions("1.5\t2\n")).toEqual({ delimiter: "\t", hasHeader: false, columns: { start: 0, end: 1, label: null, category: null, notes: null } });
+    });
+
+    test("parseCsvTags reads rows with the chosen columns", () => {
+        const text = "Name,Begin,End,Notes\nIntro,0:01,0:02.5,first\nBroken,x,3,\nOutro,1:00,1:05,";
+        const { tags, errors } = parseCsvTags(text, guessCsvOptions(text));
+        expect(tags).toEqual([
+            { start: 1, end: 2.5, label: "Intro", category: null, notes: "first" },
+            { start: 60, end: 65, label: "Outro", category: null, notes: "" },
+        ]);
+        expect(errors).toEqual(["Row 3: could not read the start time"]);
+    });
+
+    test("rows without an end column become markers", () => {
+        const { tags } = parseCsvTags("4.5,Hit", { delimiter: ",", hasHeader: false, columns: { start: 0, end: null, label: 1, category: null, notes: null } });
+        expect(tags).toEqual([{ start: 4.5, end: 4.5, label: "Hit", category: null, notes: "" }]);
+    });
+});
+
+describe("parseSubtitles", () => {
+    test("reads SRT cues", () => {
+        const { tags, errors } = parseSubtitles("1\n00:00:01,500 --> 00:00:03,000\nHello\nworld\n\n2\n00:00:04,000 --> nope\nLost\n");
+        expect(tags).toEqual([{ start: 1.5, end: 3, label: "Hello world", category: null, notes: "" }]);
+        expect(errors).toEqual(["Line 7: could not read the cue timing"]);
+    });
+
+    test("drops WebVTT cue settings and formatting tags", () => {
+        const { tags } = parseSubtitles("WEBVTT\n\n00:01.000 --> 00:02.000 align:start line:0\n<v Anna><i>Hi</i> there\n");
+        expect(tags).toEqual([{ start: 1, end: 2, label: "Hi there", category: null, notes: "" }]);
+    });
+});
+
+describe("parseCueSheet", () => {
+    test("runs each track to the next INDEX 01 and the last to the end of the file", () => {
+        const cue = ['FILE "album.wav" WAVE', "  TRACK 01 AUDIO", '    TITLE "Opening"', '    PERFORMER "Band"', "    INDEX 01 00:00:00", "  TRACK 02 AUDIO", "    INDEX 00 01:59:00", "    INDEX 01 02:00:37"].join("\n");
+        const { tags, errors } = parseCueSheet(cue, 300);
+        expect(errors).toEqual([]);
+        expect(tags).toEqual([
+            { start: 0, end: 120 + 37 / 75, label: "Opening", category: null, notes: "Band" },
+            { start: 120 + 37 / 75, end: 300, label: "Track 02", category: null, notes: "" },
+        ]);
+    });
+
+    test("reports tracks without a readable INDEX 01", () => {
+        const { tags, errors } = parseCueSheet("TRACK 01 AUDIO\n  INDEX 01 1:2\nTRACK 02 AUDIO\n  INDEX 01 00:10:00", 60);
+        expect(tags).toEqual([{ start: 10, end: 60, label: "Track 02", category: null, notes: "" }]);
+        expect(errors).toEqual(["Line 2: expected INDEX 01 mm:ss:ff", "Track 01: no INDEX 01"]);
+    });
+});
+
+describe("checkImportedTags", () => {
+    const imported = (start: number, end: number) => ({ start, end, label: "", category: null, notes: "" });
+
+    test("flags duplicates, overlaps and tags outside the file", () => {
+        const existing = [createTag(10, 20)];
+        const checked = checkImportedTags([imported(10, 20.0005), imported(15, 25), imported(30, 70), imported(65, 70), imported(40, 45), imported(40, 45)], existing, 60, true);
+        expect(checked.map(({ issues, skipped }) => ({ issues, skipped }))).toEqual([
+            { issues: ["duplicate"], skipped: true },
+            { issues: ["overlap"], skipped: false },
+            { issues: ["out-of-range"], skipped: false },
+            { issues: ["out-of-range"], skipped: true },
+            { issues: [], skipped: false },
+            { issues: ["duplicate"], skipped: true },
+        ]);
+        expect(checkImportedTags([imported(10, 20)], existing, 60, false)[0]?.skipped).toBe(false);
+    });
+
+    test("getImportableTags drops skipped tags and clamps the rest into the file", () => {
+        const checked = checkImportedTags([imported(-5, 10), imported(50, 70), imported(30, 25), imported(65, 70)], [], 60, true);
+        expect(getImportableTags(checked, 60).map(({ start, end }) => [start, end])).toEqual([
+            [0, 10],
+            [50, 60],
+            [25, 30],
+        ]);
+    });
+});
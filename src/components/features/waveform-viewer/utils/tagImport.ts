@@ -0,0 +1,346 @@
+import type { Tag } from "../types";
+import { parseClockTime } from "./time";
+
+export type TagImportFormat = "json" | "audacity" | "csv" | "subtitles" | "cue";
+
+export const TAG_IMPORT_FORMATS: Array<{ value: TagImportFormat; label: string }> = [
+    { value: "json", label: "JSON (Copy JSON)" },
+    { value: "audacity", label: "Audacity labels" },
+    { value: "csv", label: "CSV" },
+    { value: "subtitles", label: "SRT / WebVTT" },
+    { value: "cue", label: "Cue sheet" },
+];
+
+export const TAG_IMPORT_ACCEPT = ".json,.txt,.csv,.tsv,.srt,.vtt,.cue";
+
+// A tag as read from a file, the category still by name
+export interface ImportedTag {
+    start: number;
+    end: number;
+    label: string;
+    category: string | null;
+    notes: string;
+}
+
+export interface TagImportResult {
+    tags: ImportedTag[];
+    errors: string[]; // Entries that couldn't be read, with their line or position
+}
+
+export interface CsvColumns {
+    start: number;
+    end: number | null; // Without an end column every row is a zero-length marker
+    label: number | null;
+    category: number | null;
+    notes: number | null;
+}
+
+export interface CsvOptions {
+    delimiter: string;
+    hasHeader: boolean;
+    columns: CsvColumns;
+}
+
+export type TagImportIssue = "duplicate" | "overlap" | "out-of-range";
+
+export interface CheckedImportTag {
+    tag: ImportedTag;
+    issues: TagImportIssue[];
+    skipped: boolean; // Starts past the end of the file, or is a duplicate that is being skipped
+}
+
+// Times closer than this count as the same edge
+const SAME_TIME_TOLERANCE = 0.001;
+// Red Book cue sheets count 75 frames per second
+const CUE_FRAMES_PER_SECOND = 75;
+
+export function detectImportFormat(fileName: string, text: string): TagImportFormat {
+    const extension = fileName.toLowerCase().split(".").pop() ?? "";
+    if (extension === "json") return "json";
+    if (extension === "srt" || extension === "vtt") return "subtitles";
+    if (extension === "cue") return "cue";
+    if (extension === "csv" || extension === "tsv") return "csv";
+
+    const trimmed = text.trimStart();
+    if (trimmed.startsWith("[") || trimmed.startsWith("{")) return "json";
+    if (trimmed.startsWith("WEBVTT") || text.includes("-->")) return "subtitles";
+    if (/^\s*(FILE|TRACK)\s/m.test(text)) return "cue";
+    if (/^-?[\d.]+\t-?[\d.]+(\t|$)/m.test(trimmed)) return "audacity";
+    return "csv";
+}
+
+export function parseTagFile(format: TagImportFormat, text: string, duration: number, csvOptions: CsvOptions): TagImportResult {
+    switch (format) {
+        case "json":
+            return parseJsonTags(text);
+        case "audacity":
+            return parseAudacityLabels(text);
+        case "csv":
+            return parseCsvTags(text, csvOptions);
+        case "subtitles":
+            return parseSubtitles(text);
+        case "cue":
+            return parseCueSheet(text, duration);
+    }
+}
+
+function readTime(value: unknown): number | null {
+    if (typeof value === "number") return Number.isFinite(value) ? value : null;
+    return typeof value === "string" ? parseClockTime(value) : null;
+}
+
+// Our own Copy JSON output, either tag objects or the older [start, end] pairs
+export function parseJsonTags(text: string): TagImportResult {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        return { tags: [], errors: [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+    const entries = Array.isArray(data) ? data : data && typeof data === "object" && Array.isArray((data as { tags?: unknown }).tags) ? (data as { tags: unknown[] }).tags : null;
+    if (!entries) {
+        return { tags: [], errors: ["Expected an array of tags"] };
+    }
+
+    const tags: ImportedTag[] = [];
+    const errors: string[] = [];
+    entries.forEach((entry: unknown, index) => {
+        if (Array.isArray(entry)) {
+            const start = readTime(entry[0]);
+            const end = readTime(entry[1]);
+            if (start === null || end === null) {
+                errors.push(`Entry ${index + 1}: expected [start, end]`);
+                return;
+            }
+            tags.push({ start, end, label: "", category: null, notes: "" });
+            return;
+        }
+        if (!entry || typeof entry !== "object") {
+            errors.push(`Entry ${index + 1}: not a tag`);
+            return;
+        }
+        const record = entry as Record<string, unknown>;
+        const start = readTime(record.start);
+        const end = record.end === undefined ? start : readTime(record.end);
+        if (start === null || end === null) {
+            errors.push(`Entry ${index + 1}: missing or unreadable start/end`);
+            return;
+        }
+        const text = (value: unknown) => (typeof value === "string" ? value : "");
+        tags.push({ start, end, label: text(record.label ?? record.name), category: text(record.category) || null, notes: text(record.notes ?? record.note) });
+    });
+    return { tags, errors };
+}
+
+// Audacity label tracks: start, end and label separated by tabs, one label per line.
+// Spectral selections follow their label on a line starting with a backslash.
+export function parseAudacityLabels(text: string): TagImportResult {
+    const tags: ImportedTag[] = [];
+    const errors: string[] = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+        if (!line.trim() || line.startsWith("\\")) return;
+        const [startText = "", endText = "", ...labelParts] = line.split("\t");
+        const start = parseClockTime(startText);
+        const end = parseClockTime(endText);
+        if (start === null || end === null) {
+            errors.push(`Line ${index + 1}: expected start and end seconds`);
+            return;
+        }
+        tags.push({ start, end, label: labelParts.join("\t").trim(), category: null, notes: "" });
+    });
+    return { tags, errors };
+}
+
+// Rows of fields, with quoted fields that may hold delimiters, doubled quotes and line breaks
+export function parseDelimited(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === "") {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+    if (field !== "" || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter((fields) => fields.some((value) => value.trim() !== ""));
+}
+
+const HEADER_NAMES: Record<keyof CsvColumns, string[]> = {
+    start: ["start", "begin", "in", "start time", "onset"],
+    end: ["end", "stop", "out", "end time", "offset"],
+    label: ["label", "name", "title", "text", "marker"],
+    category: ["category", "type", "class"],
+    notes: ["notes", "note", "comment", "description"],
+};
+
+// Delimiter from the first line, column roles from the header names when there are any
+export function guessCsvOptions(text: string): CsvOptions {
+    const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+    const delimiter = ["\t", ";", ","].reduce((best, candidate) => (firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best), ",");
+    const header = parseDelimited(firstLine, delimiter)[0] ?? [];
+    const hasHeader = header.length > 0 && parseClockTime(header[0] ?? "") === null;
+
+    if (!hasHeader) {
+        return { delimiter, hasHeader, columns: { start: 0, end: header.length > 1 ? 1 : null, label: header.length > 2 ? 2 : null, category: null, notes: null } };
+    }
+    const names = header.map((name) => name.trim().toLowerCase());
+    const find = (role: keyof CsvColumns) => {
+        const index = names.findIndex((name) => HEADER_NAMES[role].includes(name));
+        return index >= 0 ? index : null;
+    };
+    return { delimiter, hasHeader, columns: { start: find("start") ?? 0, end: find("end"), label: find("label"), category: find("category"), notes: find("notes") } };
+}
+
+export function parseCsvTags(text: string, { delimiter, hasHeader, columns }: CsvOptions): TagImportResult {
+    const tags: ImportedTag[] = [];
+    const errors: string[] = [];
+    const rows = parseDelimited(text, delimiter);
+    const field = (row: string[], column: number | null) => (column === null ? "" : (row[column] ?? "").trim());
+
+    rows.slice(hasHeader ? 1 : 0).forEach((row, index) => {
+        const rowNumber = index + (hasHeader ? 2 : 1);
+        const start = parseClockTime(field(row, columns.start));
+        const end = columns.end === null ? start : parseClockTime(field(row, columns.end));
+        if (start === null || end === null) {
+            errors.push(`Row ${rowNumber}: could not read the ${start === null ? "start" : "end"} time`);
+            return;
+        }
+        tags.push({ start, end, label: field(row, columns.label), category: field(row, columns.category) || null, notes: field(row, columns.notes) });
+    });
+    return { tags, errors };
+}
+
+// SRT and WebVTT cues: a timing line with "-->", then the cue text up to the next blank line
+export function parseSubtitles(text: string): TagImportResult {
+    const tags: ImportedTag[] = [];
+    const errors: string[] = [];
+    const lines = text.split(/\r?\n/);
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i] ?? "";
+        if (!line.includes("-->")) continue;
+
+        const [startText = "", rest = ""] = line.split("-->");
+        // WebVTT cue settings follow the end time
+        const endText = rest.trim().split(/\s+/)[0] ?? "";
+        const start = parseClockTime(startText);
+        const end = parseClockTime(endText);
+
+        const textLines: string[] = [];
+        while (i + 1 < lines.length && (lines[i + 1] ?? "").trim() !== "") {
+            textLines.push((lines[++i] ?? "").trim());
+        }
+        if (start === null || end === null) {
+            errors.push(`Line ${i + 1 - textLines.length}: could not read the cue timing`);
+            continue;
+        }
+        // Formatting tags such as <i> or <v Speaker> aren't part of the label
+        tags.push({ start, end, label: textLines.join(" ").replace(/<[^>]*>/g, ""), category: null, notes: "" });
+    }
+    return { tags, errors };
+}
+
+function unquote(value: string): string {
+    const trimmed = value.trim();
+    return trimmed.startsWith('"') && trimmed.endsWith('"') ? trimmed.slice(1, -1) : trimmed;
+}
+
+// Cue sheet tracks from their INDEX 01 to the next track's, the last one to the end of the file
+export function parseCueSheet(text: string, duration: number): TagImportResult {
+    const tracks: Array<{ number: string; start: number | null; title: string; performer: string }> = [];
+    const errors: string[] = [];
+
+    text.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = rawLine.trim();
+        const [command = "", ...args] = line.split(/\s+/);
+        const current = tracks[tracks.length - 1];
+        switch (command.toUpperCase()) {
+            case "TRACK":
+                tracks.push({ number: args[0] ?? String(tracks.length + 1), start: null, title: "", performer: "" });
+                break;
+            case "TITLE":
+                if (current) current.title = unquote(line.slice(command.length));
+                break;
+            case "PERFORMER":
+                if (current) current.performer = unquote(line.slice(command.length));
+                break;
+            case "INDEX": {
+                if (!current || args[0] !== "01") break;
+                const match = /^(\d+):(\d+):(\d+)$/.exec(args[1] ?? "");
+                if (!match) {
+                    errors.push(`Line ${index + 1}: expected INDEX 01 mm:ss:ff`);
+                    break;
+                }
+                current.start = Number(match[1]) * 60 + Number(match[2]) + Number(match[3]) / CUE_FRAMES_PER_SECOND;
+                break;
+            }
+        }
+    });
+
+    const tags: ImportedTag[] = [];
+    tracks.forEach((track, index) => {
+        if (track.start === null) {
+            errors.push(`Track ${track.number}: no INDEX 01`);
+            return;
+        }
+        const next = tracks.slice(index + 1).find((candidate) => candidate.start !== null);
+        tags.push({ start: track.start, end: next?.start ?? duration, label: track.title || `Track ${track.number}`, category: null, notes: track.performer });
+    });
+    return { tags, errors };
+}
+
+// Flag imported tags that repeat or overlap existing ones, or reach outside the file
+export function checkImportedTags(imported: ImportedTag[], existing: Tag[], duration: number, skipDuplicates: boolean): CheckedImportTag[] {
+    const seen: Array<{ start: number; end: number }> = [...existing];
+    return imported.map((tag) => {
+        const issues: TagImportIssue[] = [];
+        const duplicate = seen.some((other) => Math.abs(other.start - tag.start) < SAME_TIME_TOLERANCE && Math.abs(other.end - tag.end) < SAME_TIME_TOLERANCE);
+        if (duplicate) {
+            issues.push("duplicate");
+        } else if (existing.some((other) => tag.start < other.end && tag.end > other.start)) {
+            issues.push("overlap");
+        }
+        if (tag.start < 0 || tag.end > duration + SAME_TIME_TOLERANCE || tag.end < tag.start) {
+            issues.push("out-of-range");
+        }
+        seen.push(tag);
+        return { tag, issues, skipped: tag.start >= duration || tag.end < 0 || (duplicate && skipDuplicates) };
+    });
+}
+
+// What actually gets merged: skipped entries dropped, the rest clamped into the file
+export function getImportableTags(checked: CheckedImportTag[], duration: number): ImportedTag[] {
+    return checked
+        .filter(({ skipped }) => !skipped)
+        .map(({ tag }) => {
+            const start = Math.min(Math.max(Math.min(tag.start, tag.end), 0), duration);
+            const end = Math.min(Math.max(Math.max(tag.start, tag.end), start), duration);
+            return { ...tag, start, end };
+        });
+}
@@ -0,0 +1,49 @@
+import type { Tag, TagCategory } from "../types";
+
+// Starting palette, users rename, recolour and extend it
+export const DEFAULT_TAG_CATEGORIES: TagCategory[] = [
+    { id: "speech", name: "Speech", color: "#3b82f6" },
+    { id: "music", name: "Music", color: "#a855f7" },
+    { id: "noise", name: "Noise", color: "#f97316" },
+    { id: "call", name: "Call", color: "#22c55e" },
+];
+
+// Colours handed to new categories in turn
+const NEW_CATEGORY_COLORS = ["#ef4444", "#eab308", "#06b6d4", "#ec4899", "#84cc16", "#6366f1"];
+
+export function getNewCategoryColor(categoryCount: number): string {
+    return NEW_CATEGORY_COLORS[categoryCount % NEW_CATEGORY_COLORS.length] ?? "#888888";
+}
+
+export function createId(): string {
+    return crypto.randomUUID();
+}
+
+export function createTag(start: number, end: number, fields: Partial<Pick<Tag, "label" | "categoryId" | "notes">> = {}): Tag {
+    const now = Date.now();
+    return { id: createId(), start, end, label: fields.label ?? "", categoryId: fields.categoryId ?? null, notes: fields.notes ?? "", createdAt: now, modifiedAt: now };
+}
+
+// Unlabelled tags are named after their position in the list
+export function getTagLabel(tag: Tag, index: number): string {
+    return tag.label || `Tag ${index + 1}`;
+}
+
+// Uncategorized tags and tags of a deleted category use the fallback
+export function getTagColor(tag: Tag, categories: TagCategory[], fallback: string): string {
+    return categories.find((category) => category.id === tag.categoryId)?.color ?? fallback;
+}
+
+// Tag starting after the time, or before it for "previous". Within RESTART_WINDOW of a tag's start, "previous" goes
+// past it to the one before, so pressing it twice while playing keeps going back.
+const RESTART_WINDOW = 1;
+
+export function findAdjacentTag(tags: Tag[], time: number, direction: "next" | "previous"): Tag | null {
+    let found: Tag | null = null;
+    for (const tag of tags) {
+        if (direction === "next" ? tag.start > time + 1e-6 && (!found || tag.start < found.start) : tag.start < time - RESTART_WINDOW && (!found || tag.start > found.start)) {
+            found = tag;
+        }
+    }
+    return found;
+}
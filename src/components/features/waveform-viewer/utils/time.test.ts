@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { formatTimecode, getFrameRate, getRulerStep, isDropFrame, parseClockTime } from "./time";
+
+const NTSC = 30000 / 1001;
+
+describe("formatTimecode", () => {
+    test("counts whole frames at non-drop rates", () => {
+        expect(formatTimecode(3661.5, "smpte-25", 48000)).toBe("01:01:01:12");
+        expect(formatTimecode(1, "smpte-24", 48000)).toBe("00:00:01:00");
+        // 23.976 fps doesn't reach frame 24 until just after one second
+        expect(formatTimecode(1, "smpte-23.976", 48000)).toBe("00:00:00:23");
+    });
+
+    test("skips frame labels 0 and 1 each minute in 29.97 drop-frame, except every tenth minute", () => {
+        const at = (frame: number) => formatTimecode(frame / NTSC, "smpte-29.97df", 48000);
+        expect(at(0)).toBe("00:00:00;00");
+        expect(at(1799)).toBe("00:00:59;29");
+        expect(at(1800)).toBe("00:01:00;02");
+        expect(at(3598)).toBe("00:02:00;02");
+        expect(at(17982)).toBe("00:10:00;00");
+        expect(at(17982 + 1800)).toBe("00:11:00;02");
+        expect(at(107892)).toBe("01:00:00;00");
+    });
+
+    test("formats clock, sample and second times", () => {
+        expect(formatTimecode(3661.25, "clock", 48000)).toBe("01:01:01.250");
+        expect(formatTimecode(-1.5, "clock", 48000)).toBe("-00:00:01.500");
+        expect(formatTimecode(1.5, "samples", 48000)).toBe("72000");
+        expect(formatTimecode(2.125, "seconds", 48000)).toBe("2.125");
+    });
+});
+
+describe("parseClockTime", () => {
+    test("reads seconds with optional minutes and hours", () => {
+        expect(parseClockTime("01:02:03,5")).toBe(3723.5);
+        expect(parseClockTime(" 1:30 ")).toBe(90);
+        expect(parseClockTime("-2.5")).toBe(-2.5);
+        expect(parseClockTime("7.")).toBe(7);
+    });
+
+    test("rejects anything else", () => {
+        expect(parseClockTime("abc")).toBeNull();
+        expect(parseClockTime("")).toBeNull();
+        expect(parseClockTime("1:2:3:4")).toBeNull();
+    });
+});
+
+describe("getFrameRate and isDropFrame", () => {
+    test("describe SMPTE formats only", () => {
+        expect(getFrameRate("smpte-29.97df")).toBe(NTSC);
+        expect(getFrameRate("smpte-25")).toBe(25);
+        expect(getFrameRate("clock")).toBeNull();
+        expect(isDropFrame("smpte-29.97df")).toBe(true);
+        expect(isDropFrame("smpte-30")).toBe(false);
+        expect(isDropFrame("samples")).toBe(false);
+    });
+});
+
+describe("getRulerStep", () => {
+    test("picks the finest step with room for its labels", () => {
+        expect(getRulerStep("clock", 48000, 100, 50)).toEqual({ major: 0.5, minor: 0.1 });
+        // Two divisions when five would put minor ticks closer than 8 pixels
+        expect(getRulerStep("clock", 48000, 7, 30)).toEqual({ major: 5, minor: 2.5 });
+        expect(getRulerStep("clock", 48000, 1, 50)).toEqual({ major: 60, minor: 12 });
+    });
+
+    test("doesn't split single frames or samples", () => {
+        expect(getRulerStep("smpte-25", 48000, 10000, 50)).toEqual({ major: 1 / 25, minor: 1 / 25 });
+        expect(getRulerStep("samples", 48000, 1000000, 10)).toEqual({ major: 1 / 48000, minor: 1 / 48000 });
+    });
+});
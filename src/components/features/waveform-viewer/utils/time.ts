@@ -1,5 +1,120 @@
+import type { TimeFormat } from "../types";
+
 export function formatTime(seconds: number): string {
     const secs = Math.floor(seconds);
     const millis = Math.floor((seconds - secs) * 1000);
     return `${secs}.${millis.toString().padStart(3, "0")}`;
 }
+
+export function formatClockTime(seconds: number): string {
+    const total = Math.floor(seconds);
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const secs = total % 60;
+    return [hours, minutes, secs].map((value) => value.toString().padStart(2, "0")).join(":");
+}
+
+// Plain seconds or [hh:]mm:ss with an optional fraction after "." or ",", as written by spreadsheets and subtitle files
+export function parseClockTime(text: string): number | null {
+    const match = /^(-?)(?:(?:(\d+):)?(\d+):)?(\d+(?:[.,]\d*)?)$/.exec(text.trim());
+    if (!match) return null;
+    const [, sign, hours = "0", minutes = "0", secs = "0"] = match;
+    const seconds = Number(hours) * 3600 + Number(minutes) * 60 + Number(secs.replace(",", "."));
+    return sign ? -seconds : seconds;
+}
+
+export const TIME_FORMATS: Array<{ value: TimeFormat; label: string }> = [
+    { value: "clock", label: "hh:mm:ss.mmm" },
+    { value: "smpte-23.976", label: "SMPTE 23.976" },
+    { value: "smpte-24", label: "SMPTE 24" },
+    { value: "smpte-25", label: "SMPTE 25" },
+    { value: "smpte-29.97df", label: "SMPTE 29.97 DF" },
+    { value: "smpte-30", label: "SMPTE 30" },
+    { value: "samples", label: "Samples" },
+    { value: "seconds", label: "Seconds" },
+];
+
+// Real frame rate and the nominal rate frames are counted in
+const SMPTE_RATES: Partial<Record<TimeFormat, { fps: number; base: number; dropFrame: boolean }>> = {
+    "smpte-23.976": { fps: 24000 / 1001, base: 24, dropFrame: false },
+    "smpte-24": { fps: 24, base: 24, dropFrame: false },
+    "smpte-25": { fps: 25, base: 25, dropFrame: false },
+    "smpte-29.97df": { fps: 30000 / 1001, base: 30, dropFrame: true },
+    "smpte-30": { fps: 30, base: 30, dropFrame: false },
+};
+
+// Real frames per second of an SMPTE format, null for the others
+export function getFrameRate(format: TimeFormat): number | null {
+    return SMPTE_RATES[format]?.fps ?? null;
+}
+
+export function isDropFrame(format: TimeFormat): boolean {
+    return SMPTE_RATES[format]?.dropFrame ?? false;
+}
+
+function pad(value: number, length = 2): string {
+    return value.toString().padStart(length, "0");
+}
+
+function formatSmpte(seconds: number, { fps, base, dropFrame }: { fps: number; base: number; dropFrame: boolean }): string {
+    let frames = Math.floor(seconds * fps + 1e-6);
+    if (dropFrame) {
+        // Frame labels 0 and 1 are skipped at the start of every minute except each tenth
+        const framesPer10Minutes = 17982;
+        const framesPerMinute = 1798;
+        const tens = Math.floor(frames / framesPer10Minutes);
+        const remainder = frames % framesPer10Minutes;
+        frames += 18 * tens + (remainder > 1 ? 2 * Math.floor((remainder - 2) / framesPerMinute) : 0);
+    }
+    const hours = Math.floor(frames / (base * 3600));
+    const minutes = Math.floor(frames / (base * 60)) % 60;
+    const secs = Math.floor(frames / base) % 60;
+    // Drop-frame timecode is written with a semicolon before the frames
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${dropFrame ? ";" : ":"}${pad(frames % base)}`;
+}
+
+export function formatTimecode(seconds: number, format: TimeFormat, sampleRate: number): string {
+    const sign = seconds < 0 ? "-" : "";
+    const value = Math.abs(seconds);
+    const smpte = SMPTE_RATES[format];
+    if (smpte) {
+        return sign + formatSmpte(value, smpte);
+    }
+    switch (format) {
+        case "samples":
+            return sign + Math.round(value * sampleRate).toString();
+        case "seconds":
+            return sign + formatTime(value);
+        default: {
+            const millis = Math.floor((value % 1) * 1000 + 1e-6);
+            return `${sign}${formatClockTime(value)}.${pad(millis, 3)}`;
+        }
+    }
+}
+
+// Candidate ruler spacings in seconds for a format, finest first: frames for SMPTE, sample counts for samples
+function getRulerSteps(format: TimeFormat, sampleRate: number): number[] {
+    const smpte = SMPTE_RATES[format];
+    const clockSteps = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600, 7200, 18000, 36000];
+    if (smpte) {
+        return [...[1, 2, 5, 10].map((frames) => frames / smpte.fps), ...clockSteps];
+    }
+    if (format === "samples") {
+        const steps: number[] = [];
+        for (let power = 1; power / sampleRate < 36000; power *= 10) {
+            steps.push(power / sampleRate, (2 * power) / sampleRate, (5 * power) / sampleRate);
+        }
+        return steps;
+    }
+    return [0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, ...clockSteps];
+}
+
+// Labelled tick spacing for the time ruler, the widest labels still get minLabelSpacing pixels
+export function getRulerStep(format: TimeFormat, sampleRate: number, pixelsPerSecond: number, minLabelSpacing: number): { major: number; minor: number } {
+    const steps = getRulerSteps(format, sampleRate);
+    const major = steps.find((step) => step * pixelsPerSecond >= minLabelSpacing) ?? steps[steps.length - 1] ?? 1;
+    // A single frame or sample can't be split, otherwise minor ticks divide a major step in five, or in two when five would crowd
+    const indivisible = major === steps[0] && format !== "clock" && format !== "seconds";
+    const divisions = indivisible ? 1 : (major * pixelsPerSecond) / 5 >= 8 ? 5 : 2;
+    return { major, minor: major / divisions };
+}
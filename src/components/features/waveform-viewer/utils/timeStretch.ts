@@ -0,0 +1,152 @@
+// Time-stretching for variable speed playback. The source plays faster or slower, which moves the pitch along with the
+// tempo, and a WSOLA pitch shifter moves the pitch back: grains are read at the inverse rate and overlap-added, each one
+// nudged to where it best continues the previous grain's waveform so voices don't turn phasey.
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+export const PITCH_SHIFT_PROCESSOR = "pitch-shift";
+
+// About 40 ms, several pitch periods of even low voices
+const GRAIN_SECONDS = 0.04;
+// How far a grain may move to line up with the previous one, about half the period of a low voice
+const SEARCH_SECONDS = 0.006;
+// Samples compared per candidate position, spread over the overlap
+const CORRELATION_POINTS = 128;
+// Slowest supported speed is a quarter, which reads grains four times as long
+const MAX_PITCH = 4;
+
+export interface PitchShifter {
+    setPitch: (pitch: number) => void; // Frequency factor, 1 / playback rate to undo the rate's pitch change
+    process: (input: Float32Array[], output: Float32Array[]) => void; // Blocks of equal length, missing input channels are silence
+}
+
+function getGrainSize(sampleRate: number): number {
+    return 2 * Math.round((sampleRate * GRAIN_SECONDS) / 2);
+}
+
+function getSearchRange(sampleRate: number): number {
+    return Math.round(sampleRate * SEARCH_SECONDS);
+}
+
+function nextPowerOfTwo(value: number): number {
+    return 2 ** Math.ceil(Math.log2(value));
+}
+
+// Samples between a sample entering the shifter and its grain leaving it: a grain needs all the input it reads
+export function getPitchShiftLatency(sampleRate: number, pitch: number): number {
+    return getSearchRange(sampleRate) + Math.ceil(getGrainSize(sampleRate) * pitch) + 2;
+}
+
+export function createPitchShifter(channelCount: number, sampleRate: number): PitchShifter {
+    const grainSize = getGrainSize(sampleRate);
+    const hop = grainSize / 2;
+    const searchRange = getSearchRange(sampleRate);
+    // Periodic Hann, overlapping halves sum to one
+    const window = new Float32Array(grainSize);
+    for (let i = 0; i < grainSize; i++) {
+        window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / grainSize);
+    }
+
+    // Input history and pending output, both indexed by absolute sample position
+    const inputSize = nextPowerOfTwo(2 * (getPitchShiftLatency(sampleRate, MAX_PITCH) + searchRange + grainSize));
+    const inputMask = inputSize - 1;
+    const outputSize = nextPowerOfTwo(grainSize * 2);
+    const outputMask = outputSize - 1;
+    const inputs = Array.from({ length: channelCount }, () => new Float32Array(inputSize));
+    const outputs = Array.from({ length: channelCount }, () => new Float32Array(outputSize));
+
+    let pitch = 1;
+    let written = 0;
+    let emitted = 0;
+    let nextGrain = 0;
+    // Input position where the previous grain's second half started reading, the next grain should match it
+    let continuation: number | null = null;
+
+    const sample = (channel: Float32Array, position: number) => {
+        const index = Math.floor(position);
+        const fraction = position - index;
+        const a = channel[index & inputMask] ?? 0;
+        const b = channel[(index + 1) & inputMask] ?? 0;
+        return a + (b - a) * fraction;
+    };
+
+    // Candidate start within the search range whose waveform best matches the continuation, by normalized correlation on the first channel
+    const findGrainStart = (nominal: number): number => {
+        const reference = inputs[0];
+        if (continuation === null || !reference) return nominal;
+        const span = Math.max(1, Math.round(hop * pitch));
+        const step = Math.max(1, Math.floor(span / CORRELATION_POINTS));
+        const from = Math.round(continuation);
+
+        let best = nominal;
+        let bestScore = Number.NEGATIVE_INFINITY;
+        for (let offset = -searchRange; offset <= searchRange; offset += 2) {
+            const start = nominal + offset;
+            let correlation = 0;
+            let energy = 1e-9;
+            for (let j = 0; j < span; j += step) {
+                const candidate = reference[(start + j) & inputMask] ?? 0;
+                correlation += candidate * (reference[(from + j) & inputMask] ?? 0);
+                energy += candidate * candidate;
+            }
+            const score = correlation / Math.sqrt(energy);
+            if (score > bestScore) {
+                bestScore = score;
+                best = start;
+            }
+        }
+        return best;
+    };
+
+    const addGrain = (outputStart: number) => {
+        const nominal = outputStart - getPitchShiftLatency(sampleRate, pitch);
+        // Nothing to read before the first input arrives
+        if (nominal + searchRange < 0) return;
+        const start = findGrainStart(nominal);
+        for (let channel = 0; channel < channelCount; channel++) {
+            const input = inputs[channel];
+            const output = outputs[channel];
+            if (!input || !output) continue;
+            for (let j = 0; j < grainSize; j++) {
+                output[(outputStart + j) & outputMask] = (output[(outputStart + j) & outputMask] ?? 0) + sample(input, start + j * pitch) * (window[j] ?? 0);
+            }
+        }
+        continuation = start + hop * pitch;
+    };
+
+    return {
+        setPitch: (value: number) => {
+            pitch = Math.min(Math.max(value, 1 / MAX_PITCH), MAX_PITCH);
+        },
+
+        process: (input: Float32Array[], output: Float32Array[]) => {
+            const length = output[0]?.length ?? 0;
+            for (let channel = 0; channel < channelCount; channel++) {
+                const history = inputs[channel];
+                if (!history) continue;
+                const block = input[channel];
+                for (let i = 0; i < length; i++) {
+                    history[(written + i) & inputMask] = block?.[i] ?? 0;
+                }
+            }
+            written += length;
+
+            // Every grain that starts within this block has to be in place before the block goes out
+            while (nextGrain < emitted + length) {
+                addGrain(nextGrain);
+                nextGrain += hop;
+            }
+
+            for (let channel = 0; channel < channelCount; channel++) {
+                const pending = outputs[channel];
+                const block = output[channel];
+                if (!pending || !block) continue;
+                for (let i = 0; i < length; i++) {
+                    const index = (emitted + i) & outputMask;
+                    block[i] = pending[index] ?? 0;
+                    pending[index] = 0;
+                }
+            }
+            emitted += length;
+        },
+    };
+}
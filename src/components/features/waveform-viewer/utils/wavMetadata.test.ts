@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test";
+import { createMetadataReader, cuePointsToTags } from "./wavMetadata";
+import { readWavHeader } from "./wavParser";
+import { adtlText, bextBody, chunk, concatBytes, cueBody, fmtBody, listBody, text, wavFile } from "./wavTestFiles";
+
+function view(bytes: Uint8Array): DataView {
+    return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+// Region entry of an adtl list: cue id, length in frames, purpose and the rest of the 20-byte header, then its text
+function ltxt(cueId: number, length: number, value = ""): Uint8Array<ArrayBuffer> {
+    const body = concatBytes([new Uint8Array(20), text(value)]);
+    const bodyView = new DataView(body.buffer);
+    bodyView.setUint32(0, cueId, true);
+    bodyView.setUint32(4, length, true);
+    body.set(text("rgn "), 8);
+    return chunk("ltxt", body);
+}
+
+function readMetadata(chunks: Array<[string, Uint8Array]>) {
+    const reader = createMetadataReader();
+    for (const [id, body] of chunks) reader.addChunk(id, view(body));
+    return reader.finish();
+}
+
+describe("createMetadataReader", () => {
+    test("reads the bext fields", () => {
+        const { bext } = readMetadata([["bext", bextBody({ description: "Scene 12", originator: "Recorder", timeReference: 2 ** 32 + 48000, codingHistory: "A=PCM,F=48000\r\n" })]]);
+        expect(bext).toMatchObject({ description: "Scene 12", originator: "Recorder", timeReference: 2 ** 32 + 48000, version: 1, umid: "", loudnessValue: null, codingHistory: "A=PCM,F=48000" });
+    });
+
+    test("reads bext version 2 loudness, leaving unset fields empty", () => {
+        const body = bextBody({});
+        const bodyView = view(body);
+        bodyView.setUint16(346, 2, true);
+        bodyView.setInt16(412, -2300, true);
+        bodyView.setInt16(414, 0x7fff, true);
+        expect(readMetadata([["bext", body]]).bext).toMatchObject({ version: 2, loudnessValue: -23, loudnessRange: null });
+        expect(readMetadata([["bext", new Uint8Array(300)]]).bext).toBeNull();
+    });
+
+    test("picks the iXML fields and track names", () => {
+        const xml = "<BWFXML><PROJECT>Film &amp; TV</PROJECT><SCENE>12</SCENE><TAKE>3</TAKE><CIRCLED>true</CIRCLED><TRACK_LIST><TRACK><NAME>Boom</NAME></TRACK><TRACK><NAME><![CDATA[Lav <1>]]></NAME></TRACK></TRACK_LIST></BWFXML>";
+        expect(readMetadata([["iXML", text(xml)]]).ixml).toMatchObject({ project: "Film & TV", scene: "12", take: "3", tape: "", circled: true, trackNames: ["Boom", "Lav <1>"] });
+        expect(readMetadata([["iXML", text("<OTHER/>")]]).ixml).toBeNull();
+    });
+
+    test("reads INFO entries past pad bytes and skips empty ones", () => {
+        const info = listBody("INFO", [chunk("INAM", text("Song\0")), chunk("ICMT", text("\0")), chunk("IART", text("Band"))]);
+        expect(readMetadata([["LIST", info]]).info).toEqual([
+            { id: "INAM", value: "Song" },
+            { id: "IART", value: "Band" },
+        ]);
+    });
+
+    test("stops at an INFO entry that runs past the end of the list", () => {
+        const info = listBody("INFO", [chunk("INAM", text("Song")), chunk("IART", text("Band"), 40)]);
+        expect(readMetadata([["LIST", info]]).info).toEqual([{ id: "INAM", value: "Song" }]);
+    });
+
+    test("joins cue points with their labels, notes and regions, sorted by position", () => {
+        const adtl = listBody("adtl", [adtlText("labl", 1, "Verse"), adtlText("note", 1, "Loud"), ltxt(1, 480), ltxt(2, 96, "Region text")]);
+        // Associated data can come before the cue chunk
+        const { cuePoints } = readMetadata([
+            ["LIST", adtl],
+            [
+                "cue ",
+                cueBody([
+                    [1, 4800],
+                    [2, 100],
+                    [3, 200],
+                ]),
+            ],
+        ]);
+        expect(cuePoints).toEqual([
+            { id: 2, position: 100, length: 96, label: "Region text", note: "" },
+            { id: 3, position: 200, length: 0, label: "", note: "" },
+            { id: 1, position: 4800, length: 480, label: "Verse", note: "Loud" },
+        ]);
+    });
+
+    test("reads only the whole entries of a truncated cue chunk", () => {
+        const body = cueBody([
+            [1, 10],
+            [2, 20],
+        ]);
+        expect(readMetadata([["cue ", body.subarray(0, 40)]]).cuePoints.map(({ id }) => id)).toEqual([1]);
+    });
+});
+
+describe("readWavHeader metadata", () => {
+    test("finds chunks after an odd-length chunk and its pad byte, and reads what a truncated chunk holds", async () => {
+        const header = await readWavHeader(wavFile([chunk("fmt ", fmtBody({})), chunk("iXML", text("<BWFXML><TAKE>7</TAKE></BWFXML>")), chunk("data", new Uint8Array(8)), chunk("LIST", listBody("INFO", [chunk("INAM", text("Cut off"))]), 100)]));
+        expect(header.chunks.map(({ id }) => id)).toEqual(["fmt ", "iXML", "data", "LIST"]);
+        expect(header.dataSize).toBe(8);
+        expect(header.metadata.ixml?.take).toBe("7");
+        expect(header.metadata.info).toEqual([{ id: "INAM", value: "Cut off" }]);
+    });
+});
+
+describe("cuePointsToTags", () => {
+    test("turns markers into zero-length tags and regions into ranges, inside the file", () => {
+        const tags = cuePointsToTags(
+            [
+                { id: 1, position: 8000, length: 0, label: "Hit", note: "" },
+                { id: 2, position: 16000, length: 8000, label: "Verse", note: "Loud" },
+                { id: 3, position: 24000, length: 80000, label: "", note: "" },
+            ],
+            8000,
+            5
+        );
+        expect(tags.map(({ start, end, label, notes }) => ({ start, end, label, notes }))).toEqual([
+            { start: 1, end: 1, label: "Hit", notes: "" },
+            { start: 2, end: 3, label: "Verse", notes: "Loud" },
+            { start: 3, end: 5, label: "", notes: "" },
+        ]);
+    });
+});
@@ -0,0 +1,210 @@
+import type { BroadcastExtension, CuePoint, IxmlMetadata, Tag, WavMetadata } from "../types";
+import { paddedSize, readFourCC, readString } from "./riff";
+import { createTag } from "./tags";
+
+// Chunks the parser hands to the metadata reader
+export const METADATA_CHUNK_IDS = new Set(["cue ", "LIST", "bext", "iXML"]);
+
+// Bigger chunks are almost certainly not metadata we can show, skip rather than load them
+export const MAX_METADATA_CHUNK_SIZE = 16 * 1024 * 1024;
+
+export const INFO_LABELS: Record<string, string> = {
+    INAM: "Title",
+    IART: "Artist",
+    IPRD: "Product",
+    ICMT: "Comment",
+    ICRD: "Date",
+    IGNR: "Genre",
+    ICOP: "Copyright",
+    IENG: "Engineer",
+    ITCH: "Technician",
+    ISFT: "Software",
+    ISRC: "Source",
+    ISBJ: "Subject",
+    IKEY: "Keywords",
+    ITRK: "Track",
+};
+
+export interface MetadataReader {
+    addChunk: (chunkId: string, view: DataView) => void;
+    finish: () => WavMetadata;
+}
+
+interface CueEntry {
+    id: number;
+    position: number;
+}
+
+interface AssociatedData {
+    labels: Map<number, string>;
+    notes: Map<number, string>;
+    lengths: Map<number, { length: number; text: string }>;
+}
+
+function parseCueChunk(view: DataView): CueEntry[] {
+    const count = view.byteLength >= 4 ? view.getUint32(0, true) : 0;
+    const entries: CueEntry[] = [];
+    for (let i = 0; i < count && 4 + (i + 1) * 24 <= view.byteLength; i++) {
+        const offset = 4 + i * 24;
+        // dwSampleOffset, not dwPosition, is what editors use for the marker location
+        entries.push({ id: view.getUint32(offset, true), position: view.getUint32(offset + 20, true) });
+    }
+    return entries;
+}
+
+function parseAdtlList(view: DataView, data: AssociatedData) {
+    let offset = 4;
+    while (offset + 8 <= view.byteLength) {
+        const id = readFourCC(view, offset);
+        const size = view.getUint32(offset + 4, true);
+        const body = offset + 8;
+        if (body + size > view.byteLength || size < 4) break;
+
+        const cueId = view.getUint32(body, true);
+        if (id === "labl") {
+            data.labels.set(cueId, readString(view, body + 4, size - 4));
+        } else if (id === "note") {
+            data.notes.set(cueId, readString(view, body + 4, size - 4));
+        } else if (id === "ltxt" && size >= 20) {
+            data.lengths.set(cueId, { length: view.getUint32(body + 4, true), text: readString(view, body + 20, size - 20) });
+        }
+
+        offset = body + paddedSize(size);
+    }
+}
+
+function parseInfoList(view: DataView): Array<{ id: string; value: string }> {
+    const entries: Array<{ id: string; value: string }> = [];
+    let offset = 4;
+    while (offset + 8 <= view.byteLength) {
+        const id = readFourCC(view, offset);
+        const size = view.getUint32(offset + 4, true);
+        if (offset + 8 + size > view.byteLength) break;
+        const value = readString(view, offset + 8, size);
+        if (value) entries.push({ id, value });
+        offset += 8 + paddedSize(size);
+    }
+    return entries;
+}
+
+function parseBextChunk(view: DataView): BroadcastExtension | null {
+    if (view.byteLength < 348) return null;
+
+    const version = view.getUint16(346, true);
+    const hasLoudness = version >= 2 && view.byteLength >= 422;
+    const loudness = (offset: number) => {
+        // 0x7fff marks an unset loudness field
+        const value = view.getInt16(offset, true);
+        return hasLoudness && value !== 0x7fff ? value / 100 : null;
+    };
+
+    let umid = "";
+    for (let i = 348; i < Math.min(412, view.byteLength); i++) {
+        umid += view.getUint8(i).toString(16).padStart(2, "0");
+    }
+
+    return {
+        description: readString(view, 0, 256),
+        originator: readString(view, 256, 32),
+        originatorReference: readString(view, 288, 32),
+        originationDate: readString(view, 320, 10),
+        originationTime: readString(view, 330, 8),
+        timeReference: view.getUint32(338, true) + view.getUint32(342, true) * 2 ** 32,
+        version,
+        umid: /^0*$/.test(umid) ? "" : umid,
+        loudnessValue: loudness(412),
+        loudnessRange: loudness(414),
+        maxTruePeakLevel: loudness(416),
+        maxMomentaryLoudness: loudness(418),
+        maxShortTermLoudness: loudness(420),
+        codingHistory: readString(view, 602, view.byteLength - 602),
+    };
+}
+
+function decodeXmlText(text: string): string {
+    return text
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, "&")
+        .trim();
+}
+
+function xmlElement(xml: string, tag: string): string {
+    const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+    return match?.[1] ? decodeXmlText(match[1]) : "";
+}
+
+// DOMParser isn't available in workers, iXML is flat enough to pick fields out directly
+function parseIxmlChunk(view: DataView): IxmlMetadata | null {
+    const xml = readString(view, 0, view.byteLength);
+    if (!xml.includes("<BWFXML")) return null;
+
+    const trackNames: string[] = [];
+    for (const track of xml.matchAll(/<TRACK>([\s\S]*?)<\/TRACK>/g)) {
+        trackNames.push(xmlElement(track[1] ?? "", "NAME"));
+    }
+
+    return {
+        project: xmlElement(xml, "PROJECT"),
+        scene: xmlElement(xml, "SCENE"),
+        take: xmlElement(xml, "TAKE"),
+        tape: xmlElement(xml, "TAPE"),
+        note: xmlElement(xml, "NOTE"),
+        circled: xmlElement(xml, "CIRCLED").toUpperCase() === "TRUE",
+        trackNames,
+        xml,
+    };
+}
+
+export function createMetadataReader(): MetadataReader {
+    const cues: CueEntry[] = [];
+    const associated: AssociatedData = { labels: new Map(), notes: new Map(), lengths: new Map() };
+    const info: Array<{ id: string; value: string }> = [];
+    let bext: BroadcastExtension | null = null;
+    let ixml: IxmlMetadata | null = null;
+
+    return {
+        addChunk: (chunkId: string, view: DataView) => {
+            if (chunkId === "cue ") {
+                cues.push(...parseCueChunk(view));
+            } else if (chunkId === "LIST" && view.byteLength >= 4) {
+                const listType = readFourCC(view, 0);
+                if (listType === "adtl") {
+                    parseAdtlList(view, associated);
+                } else if (listType === "INFO") {
+                    info.push(...parseInfoList(view));
+                }
+            } else if (chunkId === "bext") {
+                bext = parseBextChunk(view);
+            } else if (chunkId === "iXML") {
+                ixml = parseIxmlChunk(view);
+            }
+        },
+        finish: () => {
+            // Associated data may precede the cue chunk, so labels are joined only at the end
+            const cuePoints: CuePoint[] = cues.map(({ id, position }) => {
+                const region = associated.lengths.get(id);
+                return {
+                    id,
+                    position,
+                    length: region?.length ?? 0,
+                    label: associated.labels.get(id) ?? region?.text ?? "",
+                    note: associated.notes.get(id) ?? "",
+                };
+            });
+            cuePoints.sort((a, b) => a.position - b.position);
+            return { cuePoints, info, bext, ixml };
+        },
+    };
+}
+
+// Markers become zero-length tags, ltxt regions keep their length, labl and note texts carry over
+export function cuePointsToTags(cuePoints: CuePoint[], sampleRate: number, duration: number): Tag[] {
+    return cuePoints.map(({ position, length, label, note }) => {
+        const start = Math.min(position / sampleRate, duration);
+        return createTag(start, Math.min((position + length) / sampleRate, duration), { label, notes: note });
+    });
+}
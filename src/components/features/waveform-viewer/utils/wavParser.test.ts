@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test";
+import type { WavFormat } from "../types";
+import { createSampleReader, parseFormatChunk, readWavHeader } from "./wavParser";
+import { chunk, ds64Body, fmtBody, wavFile } from "./wavTestFiles";
+
+const PCM_SUB_FORMAT = [0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71];
+
+function readerFor(format: Partial<WavFormat>): (bytes: number[]) => number {
+    const read = createSampleReader({ formatTag: 1, encoding: "pcm", bitsPerSample: 16, validBitsPerSample: 16, blockAlign: 2, channelMask: 0, subFormat: null, ...format });
+    return (bytes) => read(new DataView(new Uint8Array(bytes).buffer), 0);
+}
+
+describe("parseFormatChunk", () => {
+    test("reads plain PCM", () => {
+        const format = parseFormatChunk(new DataView(fmtBody({ bits: 24, channels: 2 }).buffer), 0, 16);
+        expect(format).toMatchObject({ formatTag: 1, encoding: "pcm", bitsPerSample: 24, validBitsPerSample: 24, blockAlign: 6, subFormat: null });
+    });
+
+    test("takes the encoding and valid bits from WAVE_FORMAT_EXTENSIBLE", () => {
+        const body = fmtBody({ bits: 24, channels: 2, extensible: { validBits: 20, channelMask: 0x3, subFormat: PCM_SUB_FORMAT } });
+        const format = parseFormatChunk(new DataView(body.buffer), 0, 40);
+        expect(format).toMatchObject({ formatTag: 0xfffe, encoding: "pcm", bitsPerSample: 24, validBitsPerSample: 20, channelMask: 0x3, subFormat: "00000001-0000-0010-8000-00aa00389b71" });
+    });
+
+    test("maps IEEE float and G.711 tags", () => {
+        expect(parseFormatChunk(new DataView(fmtBody({ tag: 3, bits: 32 }).buffer), 0, 16).encoding).toBe("float");
+        expect(parseFormatChunk(new DataView(fmtBody({ tag: 6, bits: 8 }).buffer), 0, 16).encoding).toBe("alaw");
+        expect(parseFormatChunk(new DataView(fmtBody({ tag: 7, bits: 8 }).buffer), 0, 16).encoding).toBe("mulaw");
+    });
+
+    test("rejects unsupported formats and bit depths", () => {
+        expect(() => parseFormatChunk(new DataView(fmtBody({ tag: 2 }).buffer), 0, 16)).toThrow("Unsupported WAV format tag 0x0002");
+        expect(() => parseFormatChunk(new DataView(fmtBody({ tag: 3, bits: 16 }).buffer), 0, 16)).toThrow("Unsupported bit depth: 16-bit FLOAT samples");
+        const unknownSubFormat = fmtBody({ extensible: { validBits: 16, channelMask: 0, subFormat: new Array(16).fill(0x11) } });
+        expect(() => parseFormatChunk(new DataView(unknownSubFormat.buffer), 0, 40)).toThrow("Unsupported WAVE_FORMAT_EXTENSIBLE sub-format");
+    });
+
+    test("rejects truncated chunks with a descriptive error", () => {
+        expect(() => parseFormatChunk(new DataView(new ArrayBuffer(8)), 0, 8)).toThrow("Invalid fmt chunk: 8 bytes, at least 16 expected");
+        // The size claims 16 bytes but the file ends after 12
+        expect(() => parseFormatChunk(new DataView(new ArrayBuffer(12)), 0, 16)).toThrow("Invalid fmt chunk");
+        const extensible = fmtBody({ extensible: { validBits: 16, channelMask: 0, subFormat: PCM_SUB_FORMAT } });
+        expect(() => parseFormatChunk(new DataView(extensible.buffer, 0, 24), 0, 40)).toThrow("Invalid fmt chunk: WAVE_FORMAT_EXTENSIBLE header is truncated");
+    });
+});
+
+describe("createSampleReader", () => {
+    test("scales integer PCM to -1..1", () => {
+        expect(readerFor({ bitsPerSample: 8 })([0x00])).toBe(-1);
+        expect(readerFor({ bitsPerSample: 8 })([0x80])).toBe(0);
+        expect(readerFor({ bitsPerSample: 16 })([0x00, 0x80])).toBe(-1);
+        expect(readerFor({ bitsPerSample: 24 })([0x00, 0x00, 0x80])).toBe(-1);
+        expect(readerFor({ bitsPerSample: 24 })([0xff, 0xff, 0x7f])).toBe(8388607 / 8388608);
+        expect(readerFor({ bitsPerSample: 32 })([0x00, 0x00, 0x00, 0x40])).toBe(0.5);
+    });
+
+    test("reads 32- and 64-bit float as is", () => {
+        const float32 = new Uint8Array(new Float32Array([-0.25]).buffer);
+        const float64 = new Uint8Array(new Float64Array([0.125]).buffer);
+        expect(readerFor({ encoding: "float", bitsPerSample: 32 })([...float32])).toBe(-0.25);
+        expect(readerFor({ encoding: "float", bitsPerSample: 64 })([...float64])).toBe(0.125);
+    });
+
+    test("expands A-law with the G.711 table", () => {
+        const read = readerFor({ encoding: "alaw", bitsPerSample: 8 });
+        expect(read([0xd5])).toBe(8 / 32768);
+        expect(read([0x55])).toBe(-8 / 32768);
+        expect(read([0xaa])).toBe(32256 / 32768);
+        expect(read([0x2a])).toBe(-32256 / 32768);
+    });
+
+    test("expands mu-law with the G.711 table", () => {
+        const read = readerFor({ encoding: "mulaw", bitsPerSample: 8 });
+        expect(read([0xff])).toBe(0);
+        expect(read([0x7f])).toBeCloseTo(0); // Negative zero
+        expect(read([0x80])).toBe(32124 / 32768);
+        expect(read([0x00])).toBe(-32124 / 32768);
+    });
+});
+
+describe("readWavHeader", () => {
+    test("finds the format and data of a RIFF file", async () => {
+        const header = await readWavHeader(wavFile([chunk("fmt ", fmtBody({ channels: 2, sampleRate: 48000 })), chunk("data", new Uint8Array(16))]));
+        expect(header).toMatchObject({ channels: 2, sampleRate: 48000, frameCount: 4, dataOffset: 44, dataSize: 16 });
+        expect(header.chunks.map((part) => part.id)).toEqual(["fmt ", "data"]);
+    });
+
+    test("uses the rest of the file when the data size was never patched", async () => {
+        const header = await readWavHeader(wavFile([chunk("fmt ", fmtBody({})), chunk("data", new Uint8Array(10), 0)]));
+        expect(header.dataSize).toBe(10);
+        expect(header.frameCount).toBe(5);
+    });
+
+    test("rejects files that aren't WAV or lack chunks", async () => {
+        await expect(readWavHeader(new Blob(["not a wav file"]))).rejects.toThrow("Not a valid WAV file");
+        await expect(readWavHeader(wavFile([chunk("data", new Uint8Array(4))]))).rejects.toThrow("No fmt chunk found");
+        await expect(readWavHeader(wavFile([chunk("fmt ", fmtBody({}))]))).rejects.toThrow("No data chunk found");
+        await expect(readWavHeader(wavFile([chunk("fmt ", new Uint8Array(8)), chunk("data", new Uint8Array(4))]))).rejects.toThrow("Invalid fmt chunk");
+    });
+
+    test("takes RF64 sizes from the ds64 chunk", async () => {
+        for (const riff of ["RF64", "BW64"]) {
+            const header = await readWavHeader(wavFile([chunk("ds64", ds64Body({ dataSize: 12 })), chunk("fmt ", fmtBody({})), chunk("data", new Uint8Array(16), 0xffffffff)], riff));
+            expect(header.dataSize).toBe(12);
+            expect(header.frameCount).toBe(6);
+        }
+    });
+
+    test("takes large sizes of other chunks from the ds64 table", async () => {
+        const header = await readWavHeader(wavFile([chunk("ds64", ds64Body({ dataSize: 4, table: [["junk", 6]] })), chunk("fmt ", fmtBody({})), chunk("junk", new Uint8Array(6), 0xffffffff), chunk("data", new Uint8Array(4), 0xffffffff)], "RF64"));
+        expect(header.chunks.map(({ id, size }) => [id, size])).toEqual([
+            ["ds64", 40],
+            ["fmt ", 16],
+            ["junk", 6],
+            ["data", 4],
+        ]);
+    });
+
+    test("rejects RF64 files without a usable ds64 chunk", async () => {
+        await expect(readWavHeader(wavFile([chunk("fmt ", fmtBody({})), chunk("data", new Uint8Array(4))], "RF64"))).rejects.toThrow("RF64 file is missing its ds64 chunk");
+        await expect(readWavHeader(wavFile([chunk("ds64", new Uint8Array(16)), chunk("fmt ", fmtBody({})), chunk("data", new Uint8Array(4))], "RF64"))).rejects.toThrow("RF64 ds64 chunk is truncated");
+    });
+});
@@ -1,121 +1,300 @@
-import type { AudioData } from "../types";
+import type { AudioData, RiffChunk, SampleEncoding, WavFormat, WavMetadata } from "../types";
+import { createChannelPeaksBuilder } from "./peaks";
+import { paddedSize, readFourCC, readRange, readUint64 } from "./riff";
+import { createMetadataReader, MAX_METADATA_CHUNK_SIZE, METADATA_CHUNK_IDS } from "./wavMetadata";
 
-export async function parseWavFile(file: File): Promise<AudioData> {
-    const arrayBuffer = await file.arrayBuffer();
-    const view = new DataView(arrayBuffer);
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_ALAW = 0x0006;
+const WAVE_FORMAT_MULAW = 0x0007;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
 
-    // Check for RIFF header
-    const riff = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
-    if (riff !== "RIFF") {
+// Sub-format GUIDs share a fixed tail; the first field carries the actual format tag
+const KSDATAFORMAT_GUID_TAIL = "-0000-0010-8000-00aa00389b71";
+export const AMBISONIC_B_FORMAT_GUID_TAIL = "-0721-11d3-8644-c8c1ca000000";
+
+const ENCODINGS: Record<number, SampleEncoding> = {
+    [WAVE_FORMAT_PCM]: "pcm",
+    [WAVE_FORMAT_IEEE_FLOAT]: "float",
+    [WAVE_FORMAT_ALAW]: "alaw",
+    [WAVE_FORMAT_MULAW]: "mulaw",
+};
+
+const SUPPORTED_BITS: Record<SampleEncoding, number[]> = {
+    pcm: [8, 16, 24, 32],
+    float: [32, 64],
+    alaw: [8],
+    mulaw: [8],
+};
+
+export type SampleReader = (view: DataView, offset: number) => number;
+
+function formatTagName(tag: number): string {
+    return `0x${tag.toString(16).padStart(4, "0").toUpperCase()}`;
+}
+
+function readGuid(view: DataView, offset: number): string {
+    const hex = (value: number, digits: number) => value.toString(16).padStart(digits, "0");
+    const data1 = hex(view.getUint32(offset, true), 8);
+    const data2 = hex(view.getUint16(offset + 4, true), 4);
+    const data3 = hex(view.getUint16(offset + 6, true), 4);
+    let data4 = "";
+    for (let i = 8; i < 16; i++) {
+        data4 += hex(view.getUint8(offset + i), 2);
+        if (i === 9) data4 += "-";
+    }
+    return `${data1}-${data2}-${data3}-${data4}`;
+}
+
+function subFormatToTag(guid: string): number {
+    if (!guid.endsWith(KSDATAFORMAT_GUID_TAIL) && !guid.endsWith(AMBISONIC_B_FORMAT_GUID_TAIL)) {
+        throw new Error(`Unsupported WAVE_FORMAT_EXTENSIBLE sub-format ${guid}`);
+    }
+    return Number.parseInt(guid.slice(0, 8), 16);
+}
+
+export function parseFormatChunk(view: DataView, offset: number, chunkSize: number): WavFormat {
+    // A file cut off inside the chunk has less than its size says
+    const size = Math.min(chunkSize, view.byteLength - offset);
+    if (size < 16) {
+        throw new Error(`Invalid fmt chunk: ${size} bytes, at least 16 expected`);
+    }
+    const formatTag = view.getUint16(offset, true);
+    const blockAlign = view.getUint16(offset + 12, true);
+    const bitsPerSample = view.getUint16(offset + 14, true);
+
+    let effectiveTag = formatTag;
+    let validBitsPerSample = bitsPerSample;
+    let channelMask = 0;
+    let subFormat: string | null = null;
+
+    if (formatTag === WAVE_FORMAT_EXTENSIBLE) {
+        const extensionSize = size >= 18 ? view.getUint16(offset + 16, true) : 0;
+        if (extensionSize < 22 || size < 40) {
+            throw new Error("Invalid fmt chunk: WAVE_FORMAT_EXTENSIBLE header is truncated");
+        }
+        validBitsPerSample = view.getUint16(offset + 18, true) || bitsPerSample;
+        channelMask = view.getUint32(offset + 20, true);
+        subFormat = readGuid(view, offset + 24);
+        effectiveTag = subFormatToTag(subFormat);
+    }
+
+    const encoding = ENCODINGS[effectiveTag];
+    if (!encoding) {
+        throw new Error(`Unsupported WAV format tag ${formatTagName(effectiveTag)}`);
+    }
+    if (!SUPPORTED_BITS[encoding].includes(bitsPerSample)) {
+        throw new Error(`Unsupported bit depth: ${bitsPerSample}-bit ${encoding.toUpperCase()} samples`);
+    }
+    if (validBitsPerSample > bitsPerSample) {
+        throw new Error(`Invalid WAV header: ${validBitsPerSample} valid bits in a ${bitsPerSample}-bit container`);
+    }
+
+    return { formatTag, encoding, bitsPerSample, validBitsPerSample, blockAlign, channelMask, subFormat };
+}
+
+// G.711 expansion tables, normalized to the same 16-bit scale as PCM
+const ALAW_TABLE = new Float32Array(256);
+const MULAW_TABLE = new Float32Array(256);
+
+for (let i = 0; i < 256; i++) {
+    const a = i ^ 0x55;
+    const segment = (a & 0x70) >> 4;
+    let linear = ((a & 0x0f) << 4) + 8;
+    if (segment >= 1) linear += 0x100;
+    if (segment > 1) linear <<= segment - 1;
+    ALAW_TABLE[i] = ((a & 0x80) !== 0 ? linear : -linear) / 32768;
+
+    const u = ~i & 0xff;
+    const magnitude = ((((u & 0x0f) << 3) + 0x84) << ((u & 0x70) >> 4)) - 0x84;
+    MULAW_TABLE[i] = ((u & 0x80) !== 0 ? -magnitude : magnitude) / 32768;
+}
+
+export function createSampleReader(format: WavFormat): SampleReader {
+    const { encoding, bitsPerSample } = format;
+
+    if (encoding === "float") {
+        return bitsPerSample === 64 ? (view, offset) => view.getFloat64(offset, true) : (view, offset) => view.getFloat32(offset, true);
+    }
+    if (encoding === "alaw") {
+        return (view, offset) => ALAW_TABLE[view.getUint8(offset)] ?? 0;
+    }
+    if (encoding === "mulaw") {
+        return (view, offset) => MULAW_TABLE[view.getUint8(offset)] ?? 0;
+    }
+
+    switch (bitsPerSample) {
+        case 8:
+            return (view, offset) => (view.getUint8(offset) - 128) / 128;
+        case 16:
+            return (view, offset) => view.getInt16(offset, true) / 32768;
+        case 24:
+            return (view, offset) => {
+                const b1 = view.getUint8(offset);
+                const b2 = view.getUint8(offset + 1);
+                const b3 = view.getUint8(offset + 2);
+                const combined = (b3 << 16) | (b2 << 8) | b1;
+                return (combined > 8388607 ? combined - 16777216 : combined) / 8388608;
+            };
+        case 32:
+            return (view, offset) => view.getInt32(offset, true) / 2147483648;
+        default:
+            throw new Error(`Unsupported bit depth: ${bitsPerSample}-bit PCM samples`);
+    }
+}
+
+interface Ds64 {
+    riffSize: number;
+    dataSize: number;
+    sizes: Map<string, number>; // Large sizes of chunks other than data
+}
+
+function parseDs64Chunk(view: DataView, chunkSize: number): Ds64 {
+    if (chunkSize < 28) {
+        throw new Error("RF64 ds64 chunk is truncated");
+    }
+    const riffSize = readUint64(view, 0);
+    const dataSize = readUint64(view, 8);
+    const tableLength = view.getUint32(24, true);
+    const sizes = new Map<string, number>();
+    for (let i = 0; i < tableLength && 28 + (i + 1) * 12 <= chunkSize; i++) {
+        const entryOffset = 28 + i * 12;
+        sizes.set(readFourCC(view, entryOffset), readUint64(view, entryOffset + 4));
+    }
+    return { riffSize, dataSize, sizes };
+}
+
+export interface WavHeader {
+    format: WavFormat;
+    channels: number;
+    sampleRate: number;
+    frameCount: number;
+    dataOffset: number;
+    dataSize: number;
+    metadata: WavMetadata;
+    chunks: RiffChunk[];
+}
+
+export async function readWavHeader(file: Blob): Promise<WavHeader> {
+    const header = await readRange(file, 0, 12);
+    if (header.byteLength < 12) {
+        throw new Error("Not a valid WAV file");
+    }
+
+    // Check for RIFF header, RF64/BW64 store sizes above 4 GB in a ds64 chunk
+    const riff = readFourCC(header, 0);
+    const isRf64 = riff === "RF64" || riff === "BW64";
+    if (riff !== "RIFF" && !isRf64) {
         throw new Error("Not a valid WAV file");
     }
 
     // Check for WAVE format
-    const wave = String.fromCharCode(view.getUint8(8), view.getUint8(9), view.getUint8(10), view.getUint8(11));
-    if (wave !== "WAVE") {
+    if (readFourCC(header, 8) !== "WAVE") {
         throw new Error("Not a valid WAV file");
     }
 
     let offset = 12;
     let sampleRate = 44100;
     let channels = 1;
-    let bitsPerSample = 16;
+    let format: WavFormat | null = null;
+    let ds64: Ds64 | null = null;
     let dataOffset = 0;
     let dataSize = 0;
+    const metadataReader = createMetadataReader();
+    const chunks: RiffChunk[] = [];
+
+    // Parse chunks, reading only their headers and the small chunks we need
+    while (offset + 8 <= file.size) {
+        // Also read the list type of LIST chunks so writers can tell them apart later
+        const chunkHeader = await readRange(file, offset, 12);
+        const chunkId = readFourCC(chunkHeader, 0);
+        let chunkSize = chunkHeader.getUint32(4, true);
 
-    // Parse chunks
-    while (offset < arrayBuffer.byteLength) {
-        const chunkId = String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
-        const chunkSize = view.getUint32(offset + 4, true);
+        if (chunkSize === 0xffffffff && ds64) {
+            chunkSize = chunkId === "data" ? ds64.dataSize : (ds64.sizes.get(chunkId) ?? chunkSize);
+        }
 
-        if (chunkId === "fmt ") {
+        if (chunkId === "ds64") {
+            ds64 = parseDs64Chunk(await readRange(file, offset + 8, chunkSize), chunkSize);
+        } else if (chunkId === "fmt ") {
             // Parse format chunk
-            const audioFormat = view.getUint16(offset + 8, true);
-            if (audioFormat !== 1) {
-                throw new Error("Only PCM format is supported");
-            }
-            channels = view.getUint16(offset + 10, true);
-            sampleRate = view.getUint32(offset + 12, true);
-            bitsPerSample = view.getUint16(offset + 22, true);
+            const view = await readRange(file, offset + 8, chunkSize);
+            format = parseFormatChunk(view, 0, chunkSize);
+            channels = view.getUint16(2, true);
+            sampleRate = view.getUint32(4, true);
         } else if (chunkId === "data") {
-            // Found data chunk
+            // Found data chunk, a zero or oversized length means the writer never patched the header
             dataOffset = offset + 8;
-            dataSize = chunkSize;
-            break;
+            const available = file.size - dataOffset;
+            dataSize = chunkSize === 0 || chunkSize > available ? available : chunkSize;
+            chunkSize = dataSize;
+        } else if (METADATA_CHUNK_IDS.has(chunkId) && chunkSize <= MAX_METADATA_CHUNK_SIZE) {
+            metadataReader.addChunk(chunkId, await readRange(file, offset + 8, chunkSize));
         }
 
-        offset += 8 + chunkSize;
+        chunks.push({ id: chunkId, listType: chunkId === "LIST" && chunkHeader.byteLength >= 12 ? readFourCC(chunkHeader, 8) : null, offset, size: chunkSize });
+        offset += 8 + paddedSize(chunkSize);
+    }
+
+    if (isRf64 && !ds64) {
+        throw new Error("RF64 file is missing its ds64 chunk");
+    }
+
+    if (!format) {
+        throw new Error("No fmt chunk found");
     }
 
     if (dataOffset === 0) {
         throw new Error("No data chunk found");
     }
 
-    // Read audio samples
-    const bytesPerSample = bitsPerSample / 8;
-    const numSamples = dataSize / (bytesPerSample * channels);
-    const samples = new Float32Array(numSamples);
-
-    for (let i = 0; i < numSamples; i++) {
-        const sampleOffset = dataOffset + i * bytesPerSample * channels;
-        let sample = 0;
-
-        if (bitsPerSample === 8) {
-            sample = (view.getUint8(sampleOffset) - 128) / 128;
-        } else if (bitsPerSample === 16) {
-            sample = view.getInt16(sampleOffset, true) / 32768;
-        } else if (bitsPerSample === 24) {
-            const b1 = view.getUint8(sampleOffset);
-            const b2 = view.getUint8(sampleOffset + 1);
-            const b3 = view.getUint8(sampleOffset + 2);
-            const combined = (b3 << 16) | (b2 << 8) | b1;
-            sample = (combined > 8388607 ? combined - 16777216 : combined) / 8388608;
-        } else if (bitsPerSample === 32) {
-            sample = view.getInt32(sampleOffset, true) / 2147483648;
-        }
+    if (channels < 1) {
+        throw new Error("Invalid WAV header: no channels");
+    }
+
+    const frameSize = Math.max(format.blockAlign, (format.bitsPerSample / 8) * channels);
+    const frameCount = Math.floor(dataSize / frameSize);
 
-        // For multi-channel, take the average of all channels
-        if (channels > 1) {
-            let sum = sample;
-            for (let ch = 1; ch < channels; ch++) {
-                const chOffset = sampleOffset + ch * bytesPerSample;
-                let chSample = 0;
-
-                if (bitsPerSample === 8) {
-                    chSample = (view.getUint8(chOffset) - 128) / 128;
-                } else if (bitsPerSample === 16) {
-                    chSample = view.getInt16(chOffset, true) / 32768;
-                } else if (bitsPerSample === 24) {
-                    const b1 = view.getUint8(chOffset);
-                    const b2 = view.getUint8(chOffset + 1);
-                    const b3 = view.getUint8(chOffset + 2);
-                    const combined = (b3 << 16) | (b2 << 8) | b1;
-                    chSample = (combined > 8388607 ? combined - 16777216 : combined) / 8388608;
-                } else if (bitsPerSample === 32) {
-                    chSample = view.getInt32(chOffset, true) / 2147483648;
-                }
-
-                sum += chSample;
+    return { format, channels, sampleRate, frameCount, dataOffset, dataSize, metadata: metadataReader.finish(), chunks };
+}
+
+// Bytes of sample data decoded per read, whole frames only
+const SLICE_SIZE = 4 * 1024 * 1024;
+
+export interface ParseProgress {
+    bytesRead: number;
+    totalBytes: number;
+}
+
+export async function parseWavFile(file: Blob, onProgress?: (progress: ParseProgress) => void): Promise<AudioData> {
+    const { format, channels, sampleRate, frameCount, dataOffset, dataSize, metadata, chunks } = await readWavHeader(file);
+
+    const readSample = createSampleReader(format);
+    const bytesPerSample = format.bitsPerSample / 8;
+    const frameSize = Math.max(format.blockAlign, bytesPerSample * channels);
+    const framesPerSlice = Math.max(1, Math.floor(SLICE_SIZE / frameSize));
+    const peakBuilder = createChannelPeaksBuilder(frameCount, channels);
+    const frameSamples = new Float32Array(channels);
+
+    // Stream the data chunk slice by slice, folding samples into peaks as we go
+    for (let frame = 0; frame < frameCount; frame += framesPerSlice) {
+        const sliceFrames = Math.min(framesPerSlice, frameCount - frame);
+        const view = await readRange(file, dataOffset + frame * frameSize, sliceFrames * frameSize);
+
+        for (let i = 0; i < sliceFrames; i++) {
+            const sampleOffset = i * frameSize;
+
+            for (let ch = 0; ch < channels; ch++) {
+                frameSamples[ch] = readSample(view, sampleOffset + ch * bytesPerSample);
             }
-            sample = sum / channels;
+
+            peakBuilder.pushFrame(frameSamples);
         }
 
-        samples[i] = sample;
+        onProgress?.({ bytesRead: dataOffset + (frame + sliceFrames) * frameSize, totalBytes: file.size });
     }
 
-    const duration = numSamples / sampleRate;
-
-    // Decode audio for playback using Web Audio API
-    // biome-ignore lint/correctness/noUnusedVariables: <It's used later>
-        let audioBuffer: AudioBuffer;
-    try {
-        // biome-ignore lint/suspicious/noExplicitAny: <It's used later>
-        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-        audioBuffer = await audioContext.decodeAudioData(arrayBuffer.slice(0));
-        audioContext.close();
-    } catch (_error) {
-        throw new Error("Failed to decode audio file");
-    }
+    const duration = frameCount / sampleRate;
 
-    return { samples, sampleRate, channels, duration, audioBuffer: arrayBuffer };
+    return { ...peakBuilder.finish(), sourceFormat: "WAV", sampleRate, channels, duration, frameCount, format, metadata, chunks, file, dataOffset, dataSize };
 }
@@ -0,0 +1,101 @@
+// Small hand-made RIFF files for the WAV parser, metadata and writer tests
+
+const textEncoder = new TextEncoder();
+
+export function chunk(id: string, body: Uint8Array, size = body.length): Uint8Array<ArrayBuffer> {
+    const bytes = new Uint8Array(8 + body.length + (body.length % 2));
+    const view = new DataView(bytes.buffer);
+    for (let i = 0; i < 4; i++) bytes[i] = id.charCodeAt(i);
+    view.setUint32(4, size, true);
+    bytes.set(body, 8);
+    return bytes;
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+    const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        bytes.set(part, offset);
+        offset += part.length;
+    }
+    return bytes;
+}
+
+export function text(value: string): Uint8Array<ArrayBuffer> {
+    return textEncoder.encode(value);
+}
+
+// LIST chunk body: the list type followed by its sub-chunks
+export function listBody(listType: string, chunks: Uint8Array[]): Uint8Array<ArrayBuffer> {
+    return concatBytes([text(listType), ...chunks]);
+}
+
+export function fmtBody({ tag = 1, channels = 1, sampleRate = 8000, bits = 16, extensible }: { tag?: number; channels?: number; sampleRate?: number; bits?: number; extensible?: { validBits: number; channelMask: number; subFormat: number[] } }): Uint8Array {
+    const body = new Uint8Array(extensible ? 40 : 16);
+    const view = new DataView(body.buffer);
+    const blockAlign = channels * (bits / 8);
+    view.setUint16(0, extensible ? 0xfffe : tag, true);
+    view.setUint16(2, channels, true);
+    view.setUint32(4, sampleRate, true);
+    view.setUint32(8, sampleRate * blockAlign, true);
+    view.setUint16(12, blockAlign, true);
+    view.setUint16(14, bits, true);
+    if (extensible) {
+        view.setUint16(16, 22, true);
+        view.setUint16(18, extensible.validBits, true);
+        view.setUint32(20, extensible.channelMask, true);
+        body.set(extensible.subFormat, 24);
+    }
+    return body;
+}
+
+// RIFF and data sizes as 64-bit values, plus a table of other chunks too large for their 32-bit size
+export function ds64Body({ dataSize, table = [] }: { dataSize: number; table?: Array<[string, number]> }): Uint8Array {
+    const body = new Uint8Array(28 + table.length * 12);
+    const view = new DataView(body.buffer);
+    view.setBigUint64(8, BigInt(dataSize), true);
+    view.setUint32(24, table.length, true);
+    table.forEach(([id, size], index) => {
+        for (let i = 0; i < 4; i++) body[28 + index * 12 + i] = id.charCodeAt(i);
+        view.setBigUint64(32 + index * 12, BigInt(size), true);
+    });
+    return body;
+}
+
+export function wavFile(chunks: Uint8Array[], riff = "RIFF"): Blob {
+    return new Blob([chunk(riff, concatBytes([text("WAVE"), ...chunks]))]);
+}
+
+// Version 1 bext, without loudness fields
+export function bextBody({ description = "", originator = "", timeReference = 0, codingHistory = "" }: { description?: string; originator?: string; timeReference?: number; codingHistory?: string }): Uint8Array<ArrayBuffer> {
+    const history = text(codingHistory);
+    const body = new Uint8Array(602 + history.length);
+    const view = new DataView(body.buffer);
+    body.set(text(description), 0);
+    body.set(text(originator), 256);
+    view.setUint32(338, timeReference % 2 ** 32, true);
+    view.setUint32(342, Math.floor(timeReference / 2 ** 32), true);
+    view.setUint16(346, 1, true);
+    body.set(history, 602);
+    return body;
+}
+
+// Cue points as [id, sample offset]
+export function cueBody(points: Array<[number, number]>): Uint8Array<ArrayBuffer> {
+    const body = new Uint8Array(4 + points.length * 24);
+    const view = new DataView(body.buffer);
+    view.setUint32(0, points.length, true);
+    points.forEach(([id, position], index) => {
+        view.setUint32(4 + index * 24, id, true);
+        body.set(text("data"), 4 + index * 24 + 8);
+        view.setUint32(4 + index * 24 + 20, position, true);
+    });
+    return body;
+}
+
+// labl or note entry of an adtl list
+export function adtlText(id: "labl" | "note", cueId: number, value: string): Uint8Array<ArrayBuffer> {
+    const body = concatBytes([new Uint8Array(4), text(`${value}\0`)]);
+    new DataView(body.buffer).setUint32(0, cueId, true);
+    return chunk(id, body);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import { parseWavFile, readWavHeader } from "./wavParser";
+import { adtlText, bextBody, chunk, cueBody, fmtBody, listBody, text, wavFile } from "./wavTestFiles";
+import { type Marker, writeWavWithMarkers } from "./wavWriter";
+
+const SAMPLES = Uint8Array.from({ length: 16 }, (_, index) => index + 1);
+
+async function bytesOf(blob: Blob, offset: number, length: number): Promise<Uint8Array> {
+    return new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer());
+}
+
+describe("writeWavWithMarkers", () => {
+    test("keeps the other chunks and replaces the old markers", async () => {
+        const source = wavFile([
+            chunk("fmt ", fmtBody({})),
+            chunk("bext", bextBody({ description: "Take 3", codingHistory: "A=PCM\r\n" })),
+            chunk("LIST", listBody("INFO", [chunk("INAM", text("Song\0"))])),
+            chunk("cue ", cueBody([[1, 3]])),
+            chunk("LIST", listBody("adtl", [adtlText("labl", 1, "Old")])),
+            chunk("junk", new Uint8Array(3)),
+            chunk("data", SAMPLES),
+        ]);
+        const markers: Marker[] = [
+            { start: 4 / 8000, end: 8 / 8000, label: "Verse", note: "Chorus next" },
+            { start: 2 / 8000, end: 2 / 8000, label: "Hit" },
+        ];
+
+        const written = writeWavWithMarkers(await parseWavFile(source), markers);
+        const audioData = await parseWavFile(written);
+
+        expect(audioData.chunks.map(({ id, listType, size }) => [id, listType, size])).toEqual([
+            ["fmt ", null, 16],
+            ["bext", null, 609],
+            ["LIST", "INFO", 18],
+            ["junk", null, 3],
+            ["data", null, 16],
+            ["cue ", null, 52],
+            ["LIST", "adtl", 90],
+        ]);
+        // Pad bytes after the odd-sized chunks keep the samples where the data chunk says
+        expect(await bytesOf(written, audioData.dataOffset, 16)).toEqual(SAMPLES);
+        expect(written.size).toBe(12 + audioData.chunks.reduce((size, { size: chunkSize }) => size + 8 + chunkSize + (chunkSize % 2), 0));
+
+        expect(audioData.metadata.cuePoints).toEqual([
+            { id: 2, position: 2, length: 0, label: "Hit", note: "" },
+            { id: 1, position: 4, length: 4, label: "Verse", note: "Chorus next" },
+        ]);
+        expect(audioData.metadata.bext).toMatchObject({ description: "Take 3", codingHistory: "A=PCM" });
+        expect(audioData.metadata.info).toEqual([{ id: "INAM", value: "Song" }]);
+    });
+
+    test("writes an RF64 header with a ds64 table entry for chunks past 4 GB", async () => {
+        const source = await parseWavFile(wavFile([chunk("fmt ", fmtBody({})), chunk("data", SAMPLES), chunk("junk", new Uint8Array(4))]));
+        const hugeSize = 2 ** 32 + 4;
+        // Only the sizes are written, the chunk bodies are sliced from the file and end with it
+        const written = writeWavWithMarkers({ ...source, chunks: source.chunks.map((part) => (part.id === "junk" ? { ...part, size: hugeSize } : part)) }, []);
+
+        const header = new DataView((await bytesOf(written, 0, 60)).buffer);
+        expect(header.getUint32(4, true)).toBe(0xffffffff);
+        expect(header.getUint32(16, true)).toBe(40);
+        expect(header.getUint32(44, true)).toBe(1);
+
+        const parsed = await readWavHeader(written);
+        expect(parsed.dataSize).toBe(16);
+        expect(parsed.chunks.map(({ id, size }) => [id, size])).toEqual([
+            ["ds64", 40],
+            ["fmt ", 16],
+            ["data", 16],
+            ["junk", hugeSize],
+        ]);
+    });
+});
@@ -0,0 +1,140 @@
+import type { AudioData, RiffChunk } from "../types";
+import { paddedSize, writeFourCC, writeUint64 } from "./riff";
+
+const UINT32_MAX = 0xffffffff;
+const textEncoder = new TextEncoder();
+
+export interface Marker {
+    start: number; // Seconds
+    end: number; // Seconds, equal to start for a point marker
+    label: string;
+    note?: string;
+}
+
+// Chunks rebuilt by the writer instead of being copied from the source file
+function isReplacedChunk(chunk: RiffChunk): boolean {
+    return chunk.id === "cue " || chunk.id === "ds64" || (chunk.id === "LIST" && chunk.listType === "adtl");
+}
+
+function createChunk(id: string, body: Uint8Array) {
+    const chunk = new Uint8Array(8 + paddedSize(body.byteLength));
+    const view = new DataView(chunk.buffer);
+    writeFourCC(view, 0, id);
+    view.setUint32(4, body.byteLength, true);
+    chunk.set(body, 8);
+    return chunk;
+}
+
+function concat(parts: Uint8Array[]) {
+    const result = new Uint8Array(parts.reduce((size, part) => size + part.byteLength, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.byteLength;
+    }
+    return result;
+}
+
+function createTextChunk(id: string, cueId: number, text: string) {
+    const encoded = textEncoder.encode(`${text}\0`);
+    const body = new Uint8Array(4 + encoded.byteLength);
+    new DataView(body.buffer).setUint32(0, cueId, true);
+    body.set(encoded, 4);
+    return createChunk(id, body);
+}
+
+function toFrame(seconds: number, sampleRate: number): number {
+    return Math.min(UINT32_MAX, Math.max(0, Math.round(seconds * sampleRate)));
+}
+
+export function createCueChunks(markers: Marker[], sampleRate: number) {
+    if (markers.length === 0) return [];
+
+    const cue = new Uint8Array(4 + markers.length * 24);
+    const cueView = new DataView(cue.buffer);
+    cueView.setUint32(0, markers.length, true);
+
+    const adtl = [textEncoder.encode("adtl")];
+
+    markers.forEach((marker, index) => {
+        const cueId = index + 1;
+        const start = toFrame(marker.start, sampleRate);
+        const length = Math.max(0, toFrame(marker.end, sampleRate) - start);
+        const offset = 4 + index * 24;
+
+        cueView.setUint32(offset, cueId, true);
+        cueView.setUint32(offset + 4, start, true); // dwPosition
+        writeFourCC(cueView, offset + 8, "data");
+        cueView.setUint32(offset + 12, 0, true); // dwChunkStart
+        cueView.setUint32(offset + 16, 0, true); // dwBlockStart
+        cueView.setUint32(offset + 20, start, true); // dwSampleOffset
+
+        adtl.push(createTextChunk("labl", cueId, marker.label));
+        if (marker.note) {
+            adtl.push(createTextChunk("note", cueId, marker.note));
+        }
+        if (length > 0) {
+            // Region length, purpose "rgn " with no country/language/dialect/code page
+            const ltxt = new Uint8Array(20);
+            const ltxtView = new DataView(ltxt.buffer);
+            ltxtView.setUint32(0, cueId, true);
+            ltxtView.setUint32(4, length, true);
+            writeFourCC(ltxtView, 8, "rgn ");
+            adtl.push(createChunk("ltxt", ltxt));
+        }
+    });
+
+    return [createChunk("cue ", cue), createChunk("LIST", concat(adtl))];
+}
+
+// Copy every chunk of the source file except old markers, then append the new cue and adtl chunks.
+// Audio is sliced from the source Blob, so nothing is loaded into memory
+export function writeWavWithMarkers(audioData: AudioData, markers: Marker[]): Blob {
+    const { file, chunks, sampleRate, frameCount } = audioData;
+    const keptChunks = chunks.filter((chunk) => !isReplacedChunk(chunk));
+    const markerChunks = createCueChunks(markers, sampleRate);
+
+    const bodySize = keptChunks.reduce((size, chunk) => size + 8 + paddedSize(chunk.size), 0) + markerChunks.reduce((size, chunk) => size + chunk.byteLength, 0);
+    const dataChunk = keptChunks.find((chunk) => chunk.id === "data");
+    // Other chunks past 4 GB get their size from the ds64 table, the data chunk has its own field
+    const largeChunks = keptChunks.filter((chunk) => chunk.id !== "data" && chunk.size > UINT32_MAX);
+    const needsRf64 = 4 + bodySize > UINT32_MAX || (dataChunk?.size ?? 0) > UINT32_MAX || largeChunks.length > 0;
+
+    const ds64 = new Uint8Array(needsRf64 ? 36 + largeChunks.length * 12 : 0);
+    const riffSize = 4 + ds64.byteLength + bodySize;
+
+    const header = new Uint8Array(12);
+    const headerView = new DataView(header.buffer);
+    writeFourCC(headerView, 0, needsRf64 ? "RF64" : "RIFF");
+    headerView.setUint32(4, needsRf64 ? UINT32_MAX : riffSize, true);
+    writeFourCC(headerView, 8, "WAVE");
+
+    if (needsRf64) {
+        const ds64View = new DataView(ds64.buffer);
+        writeFourCC(ds64View, 0, "ds64");
+        ds64View.setUint32(4, ds64.byteLength - 8, true);
+        writeUint64(ds64View, 8, riffSize);
+        writeUint64(ds64View, 16, dataChunk?.size ?? 0);
+        writeUint64(ds64View, 24, frameCount);
+        ds64View.setUint32(32, largeChunks.length, true);
+        largeChunks.forEach((chunk, index) => {
+            writeFourCC(ds64View, 36 + index * 12, chunk.id);
+            writeUint64(ds64View, 40 + index * 12, chunk.size);
+        });
+    }
+
+    const parts: BlobPart[] = [header, ds64];
+    for (const chunk of keptChunks) {
+        const chunkHeader = new Uint8Array(8);
+        const chunkHeaderView = new DataView(chunkHeader.buffer);
+        writeFourCC(chunkHeaderView, 0, chunk.id);
+        chunkHeaderView.setUint32(4, (needsRf64 && chunk.id === "data") || chunk.size > UINT32_MAX ? UINT32_MAX : chunk.size, true);
+        parts.push(chunkHeader, file.slice(chunk.offset + 8, chunk.offset + 8 + chunk.size));
+        if (chunk.size & 1) {
+            parts.push(new Uint8Array(1));
+        }
+    }
+    parts.push(...markerChunks);
+
+    return new Blob(parts, { type: "audio/wav" });
+}
@@ -0,0 +1,56 @@
+import type { AudioData } from "../types";
+import { canReadSamples } from "./samples";
+
+// Deepest zoom when raw samples are available, far enough apart to see each one as a dot
+export const MAX_PIXELS_PER_FRAME = 32;
+// Multiplier of one zoom button press
+export const ZOOM_STEP = 2;
+// Share of the viewport a zoomed-to tag fills, leaving some context on both sides
+const ZOOM_TO_RANGE_FILL = 0.9;
+// Window shown around a zero-length tag (a marker)
+const MARKER_ZOOM_SECONDS = 1;
+
+type ZoomSource = Pick<AudioData, "duration" | "sampleRate" | "sourceFormat" | "dataSize" | "mixPeaks">;
+
+export function getFitPixelsPerSecond(duration: number, viewportWidth: number): number {
+    return Math.max(1, viewportWidth) / Math.max(duration, 1e-6);
+}
+
+export function getMaxPixelsPerSecond(audioData: ZoomSource): number {
+    if (canReadSamples(audioData)) {
+        return audioData.sampleRate * MAX_PIXELS_PER_FRAME;
+    }
+    // Decoded formats keep only peaks, one finest-level peak per pixel is as deep as they go
+    return audioData.sampleRate / audioData.mixPeaks.average.levels[0].samplesPerPeak;
+}
+
+// Between fit-to-window and the deepest useful zoom
+export function clampPixelsPerSecond(pixelsPerSecond: number, audioData: ZoomSource, viewportWidth: number): number {
+    const fit = getFitPixelsPerSecond(audioData.duration, viewportWidth);
+    return Math.min(Math.max(pixelsPerSecond, fit), Math.max(fit, getMaxPixelsPerSecond(audioData)));
+}
+
+export function clampScrollLeft(scrollLeft: number, contentWidth: number, viewportWidth: number): number {
+    return Math.min(Math.max(0, scrollLeft), Math.max(0, contentWidth - viewportWidth));
+}
+
+// Zoom level and scroll position that frame a time range, markers get a fixed window around them
+export function getRangeZoom(start: number, end: number, viewportWidth: number): { pixelsPerSecond: number; centerTime: number } {
+    const length = end - start > 0 ? end - start : MARKER_ZOOM_SECONDS;
+    return { pixelsPerSecond: (viewportWidth * ZOOM_TO_RANGE_FILL) / length, centerTime: (start + end) / 2 };
+}
+
+export function formatZoomLevel(pixelsPerSecond: number, sampleRate: number): string {
+    const pixelsPerFrame = pixelsPerSecond / sampleRate;
+    if (pixelsPerFrame >= 1) {
+        return `1 sample = ${pixelsPerFrame.toFixed(1)} px`;
+    }
+    const secondsPerPixel = 1 / pixelsPerSecond;
+    if (secondsPerPixel >= 1) {
+        return `1 px = ${secondsPerPixel.toFixed(2)} s`;
+    }
+    if (secondsPerPixel >= 0.001) {
+        return `1 px = ${(secondsPerPixel * 1000).toFixed(2)} ms`;
+    }
+    return `1 px = ${(1 / pixelsPerFrame).toFixed(1)} samples`;
+}
@@ -0,0 +1,15 @@
+// Bundle-time macro: Bun's HTML bundler doesn't follow `new Worker(new URL(...))`, so worker entries are
+// compiled into standalone scripts here and inlined as strings, then started from a Blob URL at runtime.
+// Bun.build can't be called from inside a macro, hence the CLI.
+export function bundleWorker(path: string): string {
+    const entry = new URL(path, import.meta.url).pathname;
+    const result = Bun.spawnSync([process.execPath, "build", entry, "--target=browser", "--format=esm", "--minify"]);
+    if (!result.success) {
+        throw new Error(`Failed to bundle worker ${path}: ${result.stderr.toString()}`);
+    }
+    return result.stdout.toString();
+}
+
+export function createWorkerUrl(source: string): string {
+    return URL.createObjectURL(new Blob([source], { type: "text/javascript" }));
+}
@@ -0,0 +1,24 @@
+import type { AudioData } from "../types";
+import { createAudioDataFromPcm, type DecodedPcm } from "../utils/pcm";
+import { peakBuffers } from "../utils/peaks";
+import { type ParseProgress, parseWavFile } from "../utils/wavParser";
+
+export type DecoderWorkerRequest = { type: "wav"; file: Blob } | ({ type: "pcm" } & DecodedPcm);
+
+export type DecoderWorkerResponse = { type: "progress"; progress: ParseProgress } | { type: "done"; audioData: AudioData } | { type: "error"; message: string };
+
+function respond(message: DecoderWorkerResponse, transfer: Transferable[] = []) {
+    self.postMessage(message, { transfer });
+}
+
+self.onmessage = async (event: MessageEvent<DecoderWorkerRequest>) => {
+    const request = event.data;
+    const onProgress = (progress: ParseProgress) => respond({ type: "progress", progress });
+
+    try {
+        const audioData = request.type === "wav" ? await parseWavFile(request.file, onProgress) : createAudioDataFromPcm(request, onProgress);
+        respond({ type: "done", audioData }, peakBuffers(audioData));
+    } catch (error) {
+        respond({ type: "error", message: error instanceof Error ? error.message : "Unknown error" });
+    }
+};
@@ -0,0 +1,40 @@
+import { createPitchShifter, PITCH_SHIFT_PROCESSOR, type PitchShifter } from "../utils/timeStretch";
+
+export interface PitchShiftWorkletMessage {
+    pitch: number;
+}
+
+// AudioWorkletGlobalScope isn't part of the DOM typings
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: new () => AudioWorkletProcessor): void;
+
+class PitchShiftProcessor extends AudioWorkletProcessor {
+    private shifter: PitchShifter | null = null;
+    private channelCount = 0;
+    private pitch = 1;
+
+    constructor() {
+        super();
+        this.port.onmessage = (event: MessageEvent<PitchShiftWorkletMessage>) => {
+            this.pitch = event.data.pitch;
+            this.shifter?.setPitch(event.data.pitch);
+        };
+    }
+
+    process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+        const output = outputs[0] ?? [];
+        if (!this.shifter || this.channelCount !== output.length) {
+            this.shifter = createPitchShifter(output.length, sampleRate);
+            this.shifter.setPitch(this.pitch);
+            this.channelCount = output.length;
+        }
+        // A disconnected input arrives without channels and is shifted as silence
+        this.shifter.process(inputs[0] ?? [], output);
+        return true;
+    }
+}
+
+registerProcessor(PITCH_SHIFT_PROCESSOR, PitchShiftProcessor);
@@ -0,0 +1,61 @@
+import type { DownmixMode, SpectrogramSettings } from "../types";
+import { downmixSamples, readSampleWindow, type SampleSource } from "../utils/samples";
+import { computeSpectrogramColumns } from "../utils/spectrogram";
+
+export interface SpectrogramWorkerRequest {
+    id: number;
+    source: SampleSource;
+    downmix: DownmixMode;
+    settings: Pick<SpectrogramSettings, "fftSize" | "windowFunction">;
+    firstColumn: number;
+    columnCount: number;
+    framesPerColumn: number;
+}
+
+export type SpectrogramWorkerResponse = { type: "done"; id: number; levels: Uint8Array } | { type: "error"; id: number; message: string };
+
+// Columns further apart than this many windows are read one by one instead of as a single run
+const SPARSE_COLUMN_WINDOWS = 4;
+
+function respond(message: SpectrogramWorkerResponse, transfer: Transferable[] = []) {
+    self.postMessage(message, { transfer });
+}
+
+// Mono frames from startFrame on, zero outside the file
+async function readMono(source: SampleSource, downmix: DownmixMode, startFrame: number, length: number): Promise<Float32Array> {
+    const frames = new Float32Array(length);
+    const window = await readSampleWindow(source, startFrame, length - Math.max(0, -startFrame));
+    if (window.length > 0) {
+        frames.set(downmixSamples(window, downmix).subarray(0, length), window.startFrame - Math.floor(startFrame));
+    }
+    return frames;
+}
+
+async function computeColumns({ source, downmix, settings, firstColumn, columnCount, framesPerColumn }: SpectrogramWorkerRequest): Promise<Uint8Array> {
+    const { fftSize } = settings;
+    // Each window is centered on its column
+    const windowStart = (column: number) => Math.floor((firstColumn + column + 0.5) * framesPerColumn) - fftSize / 2;
+
+    if (framesPerColumn <= fftSize * SPARSE_COLUMN_WINDOWS) {
+        const first = windowStart(0);
+        const frames = await readMono(source, downmix, first, windowStart(columnCount - 1) - first + fftSize);
+        return computeSpectrogramColumns((column, into) => into.set(frames.subarray(windowStart(column) - first, windowStart(column) - first + fftSize)), columnCount, settings);
+    }
+
+    // Zoomed far out only the frames under each column are read
+    const windows: Float32Array[] = [];
+    for (let column = 0; column < columnCount; column++) {
+        windows.push(await readMono(source, downmix, windowStart(column), fftSize));
+    }
+    return computeSpectrogramColumns((column, into) => into.set(windows[column] ?? new Float32Array(fftSize)), columnCount, settings);
+}
+
+self.onmessage = async (event: MessageEvent<SpectrogramWorkerRequest>) => {
+    const request = event.data;
+    try {
+        const levels = await computeColumns(request);
+        respond({ type: "done", id: request.id, levels }, [levels.buffer]);
+    } catch (error) {
+        respond({ type: "error", id: request.id, message: error instanceof Error ? error.message : "Unknown error" });
+    }
+};